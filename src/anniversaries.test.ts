@@ -0,0 +1,119 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS } from './settings';
+import type { CustomEventDate } from './customevents';
+import AnniversarySource, {
+    AnniversaryEntry,
+    formatAnniversaryTitle,
+    getAnniversaryForDate,
+    readAnniversaryEntries,
+} from './anniversaries';
+
+// 1403-06-15 is 2024-09-05
+const date: CustomEventDate = {
+    jalaali: { jy: 1403, jm: 6, jd: 15 },
+    gregorian: { gy: 2024, gm: 9, gd: 5 },
+    hijri: { hy: 1446, hm: 3, hd: 1 },
+};
+
+function entry(overrides: Partial<AnniversaryEntry>): AnniversaryEntry {
+    return { path: 'People/Sara.md', name: 'Sara', key: 'birthday', calendar: 'jalali', year: 1370, month: 6, day: 15, ...overrides };
+}
+
+describe('readAnniversaryEntries', () => {
+    test('reads Jalali and Gregorian dates from the configured keys', () => {
+        const frontmatter = { birthday: '1370-06-15', born: '1991/09/06', other: '1380-01-01' };
+        expect(readAnniversaryEntries('People/Sara.md', frontmatter, ['birthday', 'born'])).toEqual([
+            entry({}),
+            entry({ key: 'born', calendar: 'gregorian', year: 1991, month: 9, day: 6 }),
+        ]);
+    });
+
+    test('ignores missing frontmatter, dates without a year and other values', () => {
+        expect(readAnniversaryEntries('a.md', undefined, ['birthday'])).toEqual([]);
+        expect(readAnniversaryEntries('a.md', { birthday: '06-15' }, ['birthday'])).toEqual([]);
+        expect(readAnniversaryEntries('a.md', { birthday: ['1370-06-15'] }, ['birthday'])).toEqual([]);
+        expect(readAnniversaryEntries('a.md', { birthday: '1370-13-15' }, ['birthday'])).toEqual([]);
+    });
+});
+
+describe('getAnniversaryForDate', () => {
+    test('counts the years since the original date', () => {
+        expect(getAnniversaryForDate(entry({}), date)).toEqual({ entry: entry({}), years: 33 });
+        expect(getAnniversaryForDate(entry({ calendar: 'gregorian', year: 2000, month: 9, day: 5 }), date)?.years).toBe(24);
+    });
+
+    test('does not match other days or years before the original date', () => {
+        expect(getAnniversaryForDate(entry({ day: 16 }), date)).toBeNull();
+        expect(getAnniversaryForDate(entry({ year: 1404 }), date)).toBeNull();
+    });
+
+    test('moves leap day anniversaries to the end of the month in common years', () => {
+        const esfand30 = entry({ year: 1399, month: 12, day: 30 });
+        const esfand29 = { ...date, jalaali: { jy: 1402, jm: 12, jd: 29 } };
+        expect(getAnniversaryForDate(esfand30, esfand29)?.years).toBe(3);
+
+        const feb29 = entry({ calendar: 'gregorian', year: 2020, month: 2, day: 29 });
+        expect(getAnniversaryForDate(feb29, { ...date, gregorian: { gy: 2023, gm: 2, gd: 28 } })?.years).toBe(3);
+        expect(getAnniversaryForDate(feb29, { ...date, gregorian: { gy: 2024, gm: 2, gd: 28 } })).toBeNull();
+    });
+});
+
+describe('formatAnniversaryTitle', () => {
+    test('shows the years when there are any', () => {
+        expect(formatAnniversaryTitle({ entry: entry({}), years: 33 })).toBe('Sara (birthday، 33 سال)');
+        expect(formatAnniversaryTitle({ entry: entry({}), years: 0 })).toBe('Sara (birthday)');
+    });
+});
+
+describe('AnniversarySource', () => {
+    function createSource(frontmatters: { [path: string]: { [key: string]: unknown } }) {
+        const plugin = {
+            settings: { ...DEFAULT_SETTINGS },
+            app: {
+                vault: {
+                    getMarkdownFiles: jest.fn(() => Object.keys(frontmatters).map(path => ({ path }))),
+                },
+                metadataCache: {
+                    getCache: jest.fn((path: string) => frontmatters[path] ? { frontmatter: frontmatters[path] } : null),
+                },
+            },
+        } as unknown as PersianCalendarPlugin;
+        return { plugin, source: new AnniversarySource(plugin) };
+    }
+
+    test('scans the metadata cache on the first lookup', () => {
+        const { source } = createSource({
+            'People/Sara.md': { birthday: '1370-06-15' },
+            'People/Ali.md': { born: '1991-09-05' },
+            'Notes/idea.md': { tags: ['x'] },
+        });
+        expect(source.getEventsForDate(date).map(event => event.entry.name)).toEqual(['Sara', 'Ali']);
+    });
+
+    test('follows frontmatter changes, deletes and renames', () => {
+        const frontmatters: { [path: string]: { [key: string]: unknown } } = { 'People/Sara.md': { birthday: '1370-06-15' } };
+        const { source } = createSource(frontmatters);
+        expect(source.updateFile('People/Sara.md')).toBe(false); // not built yet
+        expect(source.getEventsForDate(date)).toHaveLength(1);
+
+        frontmatters['People/Sara.md'] = { birthday: '1370-06-16' };
+        expect(source.updateFile('People/Sara.md')).toBe(true);
+        expect(source.getEventsForDate(date)).toHaveLength(0);
+        expect(source.updateFile('People/Sara.md')).toBe(false);
+
+        frontmatters['People/Sara Ahmadi.md'] = { birthday: '1370-06-15' };
+        expect(source.renameFile('People/Sara.md', 'People/Sara Ahmadi.md')).toBe(true);
+        expect(source.getEventsForDate(date).map(event => event.entry.name)).toEqual(['Sara Ahmadi']);
+
+        expect(source.removeFile('People/Sara Ahmadi.md')).toBe(true);
+        expect(source.getEventsForDate(date)).toHaveLength(0);
+    });
+
+    test('rescans when the keys change', () => {
+        const { plugin, source } = createSource({ 'People/Sara.md': { anniversary: '1395-06-15' } });
+        expect(source.getEventsForDate(date)).toHaveLength(0);
+
+        plugin.settings.anniversaryFrontmatterKeys = 'birthday, anniversary';
+        expect(source.getEventsForDate(date).map(event => event.years)).toEqual([8]);
+    });
+});
@@ -0,0 +1,165 @@
+import { isLeapJalaaliYear } from 'jalaali-js';
+import type PersianCalendarPlugin from './main';
+import { parseEventDate, CustomEventDate } from './customevents';
+
+/**
+ * A date read from the frontmatter of a note, e.g. `birthday: 1370-06-15`
+ */
+export interface AnniversaryEntry {
+    path: string;
+    name: string;
+    key: string;
+    calendar: 'jalali' | 'gregorian';
+    year: number;
+    month: number;
+    day: number;
+}
+
+/**
+ * An anniversary falling on a given day, with the years passed since the original date
+ */
+export interface AnniversaryEvent {
+    entry: AnniversaryEntry;
+    years: number;
+}
+
+/**
+ * Read the configured frontmatter keys of one note. Years above 1500 are taken as
+ * Gregorian and the rest as Jalaali, like the date conversion command.
+ */
+export function readAnniversaryEntries(path: string, frontmatter: { [key: string]: unknown } | undefined, keys: string[]): AnniversaryEntry[] {
+    if (!frontmatter) {
+        return [];
+    }
+    const name = path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+    const entries: AnniversaryEntry[] = [];
+    keys.forEach(key => {
+        const value = frontmatter[key];
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            return;
+        }
+        const date = parseEventDate(String(value));
+        if (!date || !date.year || date.month < 1 || date.month > 12 || date.day < 1 || date.day > 31) {
+            return;
+        }
+        const calendar = date.year > 1500 ? 'gregorian' : 'jalali';
+        entries.push({ path, name, key, calendar, year: date.year, month: date.month, day: date.day });
+    });
+    return entries;
+}
+
+function isLeapGregorianYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function getAnniversaryForDate(entry: AnniversaryEntry, date: CustomEventDate): AnniversaryEvent | null {
+    const { year, month, day } = entry.calendar === 'gregorian'
+        ? { year: date.gregorian.gy, month: date.gregorian.gm, day: date.gregorian.gd }
+        : { year: date.jalaali.jy, month: date.jalaali.jm, day: date.jalaali.jd };
+    if (year < entry.year || entry.month !== month) {
+        return null;
+    }
+
+    // Leap day anniversaries move to the last day of the month in common years
+    let anniversaryDay = entry.day;
+    if (entry.calendar === 'jalali' && entry.month === 12 && entry.day === 30 && !isLeapJalaaliYear(year)) {
+        anniversaryDay = 29;
+    } else if (entry.calendar === 'gregorian' && entry.month === 2 && entry.day === 29 && !isLeapGregorianYear(year)) {
+        anniversaryDay = 28;
+    }
+    return anniversaryDay === day ? { entry, years: year - entry.year } : null;
+}
+
+/**
+ * Title of an anniversary for the tooltip, agenda and {{مناسبت}}, e.g. `سارا (birthday، ۳۳ سال)`
+ */
+export function formatAnniversaryTitle(event: AnniversaryEvent, toDigits: (value: number) => string = String): string {
+    const { name, key } = event.entry;
+    return event.years > 0 ? `${name} (${key}، ${toDigits(event.years)} سال)` : `${name} (${key})`;
+}
+
+/**
+ * Birthdays and anniversaries read from note frontmatter through the metadata cache.
+ * The notes are scanned on the first lookup and then kept up to date from cache events.
+ */
+export default class AnniversarySource {
+    plugin: PersianCalendarPlugin;
+    private entriesByPath: Map<string, AnniversaryEntry[]> = new Map();
+    private builtFor: string | null = null;
+
+    constructor(plugin: PersianCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    public build(): void {
+        this.entriesByPath.clear();
+        this.builtFor = this.getSettingsKey();
+        this.plugin.app.vault.getMarkdownFiles().forEach(file => this.read(file.path));
+    }
+
+    /**
+     * Re-read the frontmatter of a changed note. Returns true if its anniversaries changed.
+     */
+    public updateFile(path: string): boolean {
+        if (!this.isBuilt()) {
+            return false;
+        }
+        const before = JSON.stringify(this.entriesByPath.get(path) ?? []);
+        this.entriesByPath.delete(path);
+        this.read(path);
+        return before !== JSON.stringify(this.entriesByPath.get(path) ?? []);
+    }
+
+    /**
+     * Forget a deleted note. Returns true if it had anniversaries.
+     */
+    public removeFile(path: string): boolean {
+        if (!this.isBuilt()) {
+            return false;
+        }
+        return this.entriesByPath.delete(path);
+    }
+
+    /**
+     * Move the anniversaries of a renamed note, whose name is part of their titles
+     */
+    public renameFile(oldPath: string, newPath: string): boolean {
+        const removed = this.removeFile(oldPath);
+        const updated = this.updateFile(newPath);
+        return removed || updated;
+    }
+
+    public getEventsForDate(date: CustomEventDate): AnniversaryEvent[] {
+        if (!this.isBuilt()) {
+            this.build();
+        }
+        const events: AnniversaryEvent[] = [];
+        this.entriesByPath.forEach(entries => entries.forEach(entry => {
+            const event = getAnniversaryForDate(entry, date);
+            if (event) {
+                events.push(event);
+            }
+        }));
+        return events;
+    }
+
+    private read(path: string): void {
+        const frontmatter = this.plugin.app.metadataCache.getCache(path)?.frontmatter;
+        const entries = readAnniversaryEntries(path, frontmatter, this.getKeys());
+        if (entries.length > 0) {
+            this.entriesByPath.set(path, entries);
+        }
+    }
+
+    private getKeys(): string[] {
+        return this.plugin.settings.anniversaryFrontmatterKeys.split(',').map(key => key.trim()).filter(key => key);
+    }
+
+    private isBuilt(): boolean {
+        return this.builtFor !== null && this.builtFor === this.getSettingsKey();
+    }
+
+    private getSettingsKey(): string {
+        return this.getKeys().join(',');
+    }
+}
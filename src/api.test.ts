@@ -0,0 +1,89 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS, PluginSettings } from './settings';
+import PersianCalendarApi from './api';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+function createApi(settings: Partial<PluginSettings> = {}) {
+    const plugin = {
+        settings: { ...DEFAULT_SETTINGS, ...settings },
+        customEvents: {
+            getEventsForDate: jest.fn(() => [{ title: 'سالگرد', calendar: 'jalali', month: 4, day: 26, holiday: true, color: '#e67e22' }]),
+        },
+        anniversaries: {
+            getEventsForDate: jest.fn(() => [{ entry: { name: 'سارا', key: 'birthday' }, years: 30 }]),
+        },
+        icsCalendars: {
+            getOccurrencesForDate: jest.fn(() => []),
+        },
+    };
+    return { plugin, api: new PersianCalendarApi(plugin as unknown as PersianCalendarPlugin) };
+}
+
+describe('PersianCalendarApi', () => {
+    test('converts between Jalaali, Gregorian and JavaScript dates', () => {
+        const { api } = createApi();
+        expect(api.toJalaali(new Date(2024, 7, 1))).toEqual({ jy: 1403, jm: 5, jd: 11 });
+        expect(api.toJalaali({ gy: 2024, gm: 8, gd: 1 })).toEqual({ jy: 1403, jm: 5, jd: 11 });
+        expect(api.toGregorian({ jy: 1403, jm: 5, jd: 11 })).toEqual({ gy: 2024, gm: 8, gd: 1 });
+    });
+
+    test('converts Hijri dates back with the same calendar', () => {
+        const { api } = createApi();
+        expect(api.fromHijri({ hy: 1446, hm: 1, hd: 26 })).toEqual({ jy: 1403, jm: 5, jd: 11 });
+        expect(api.fromHijri({ hy: 1446, hm: 4, hd: 30 })).toBeNull();
+        expect(api.fromHijri({ hy: 1448, hm: 1, hd: 10 })).toEqual({ jy: 1405, jm: 4, jd: 5 });
+        expect(api.getHijriDate({ jy: 1405, jm: 3, jd: 27 })).toEqual({ hy: 1448, hm: 1, hd: 1 });
+        const ummalqura = createApi({ hijriCalendarType: 'ummalqura', hijriDateAdjustment: 0 }).api;
+        expect(ummalqura.fromHijri(ummalqura.getHijriDate({ jy: 1405, jm: 9, jd: 3 }))).toEqual({ jy: 1405, jm: 9, jd: 3 });
+    });
+
+    test('resolves periodic note paths of any day', () => {
+        const { api } = createApi({ dailyNotesFolderPath: 'Daily', dailyNotesFormat: 'YYYY-MM-DD', quarterlyNotesFolderPath: '', quarterlyNotesFormat: 'YYYY-[Q]Q' });
+        expect(api.getPeriodicNotePath('daily', { gy: 2024, gm: 8, gd: 1 })).toBe('Daily/1403-05-11.md');
+        expect(api.getPeriodicNotePath('quarterly', { jy: 1403, jm: 5, jd: 11 })).toBe('1403-Q2.md');
+    });
+
+    test('calls subscribers until they unsubscribe, even when one of them fails', () => {
+        const { api } = createApi();
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const clicked = jest.fn();
+        api.on('day-clicked', () => { throw new Error('listener'); });
+        const unsubscribe = api.on('day-clicked', clicked);
+        api.trigger('day-clicked', { date: { jy: 1403, jm: 5, jd: 11 } });
+        unsubscribe();
+        api.trigger('day-clicked', { date: { jy: 1403, jm: 5, jd: 12 } });
+        expect(clicked).toHaveBeenCalledTimes(1);
+        expect(clicked).toHaveBeenCalledWith({ date: { jy: 1403, jm: 5, jd: 11 } });
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockRestore();
+    });
+
+    test('converts Jalaali and JavaScript dates to Hijri with the settings', () => {
+        const { api } = createApi();
+        expect(api.getHijriDate({ jy: 1403, jm: 5, jd: 11 })).toEqual({ hy: 1446, hm: 1, hd: 26 });
+        expect(api.getHijriDate(new Date(2024, 7, 1))).toEqual({ hy: 1446, hm: 1, hd: 26 });
+    });
+
+    test('lists built-in, custom and anniversary events of a day', () => {
+        // 1403-04-26 is Ashura 1446 in Iran
+        const { api, plugin } = createApi({ showShiaCalendar: true });
+        const events = api.getEvents({ jy: 1403, jm: 4, jd: 26 });
+        expect(events).toContainEqual({ title: 'عاشورای حسینی', isHoliday: true, type: 'Islamic Iran' });
+        expect(events).toContainEqual({ title: 'سالگرد', isHoliday: true, type: 'Custom', category: undefined, color: '#e67e22' });
+        expect(events).toContainEqual({ title: 'سارا (birthday، 30 سال)', isHoliday: false, type: 'Anniversary' });
+        expect(plugin.icsCalendars.getOccurrencesForDate).toHaveBeenCalledWith(2024, 7, 16);
+    });
+
+    test('leaves out the calendars turned off in the settings', () => {
+        const { api } = createApi({ showShiaCalendar: false, showOfficialIranianCalendar: false, showAncientIranianCalendar: false });
+        expect(api.getEvents({ jy: 1403, jm: 4, jd: 26 }).map(event => event.type)).toEqual(['Custom', 'Anniversary']);
+    });
+
+    test('returns placeholders unchanged before the plugin is loaded', () => {
+        const { api } = createApi();
+        expect(api.expandPlaceholders('{{امروز}}')).toBe('{{امروز}}');
+        expect(api.resolvePlaceholder('امروز')).toBeNull();
+    });
+});
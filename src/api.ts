@@ -0,0 +1,158 @@
+import type { TFile } from 'obsidian';
+import { toGregorian, toJalaali } from 'jalaali-js';
+import type PersianCalendarPlugin from './main';
+import type { CalendarEvent, JalaaliDate } from './settings';
+import type { PeriodicNoteKind } from './noteindex';
+import { getHijriDate, getJalaaliFromHijri, HijriDate } from './hijri';
+import { getCalendarEventsForDate } from './events';
+import { getPeriodicNotePath } from './periodicnotes';
+import DataviewHelpers from './dataview';
+
+export type GregorianDate = { gy: number, gm: number, gd: number };
+
+/**
+ * A day given as a JavaScript date, read in local time, or as a Jalaali or Gregorian date
+ */
+export type ApiDate = Date | JalaaliDate | GregorianDate;
+
+/**
+ * Events subscribers can listen to with `api.on`, with the data passed to them
+ */
+export interface PersianCalendarApiEvents {
+    // A day of the month or year view was clicked, before its daily note is opened
+    'day-clicked': { date: JalaaliDate };
+    // The calendar or the API created a periodic note. The date is the first day of the
+    // note, or null when the note name cannot be read back with the current formats.
+    'note-created': { file: TFile, kind: PeriodicNoteKind, date: JalaaliDate | null };
+}
+
+/**
+ * Functions of the plugin for other plugins and scripts, available as
+ * `app.plugins.plugins['persian-calendar'].api`. Everything except opening notes is
+ * synchronous, so Templater `<% %>` tags and `tp.user` scripts can use the result directly.
+ */
+export default class PersianCalendarApi {
+    /**
+     * Raised when a method is removed or changes its signature
+     */
+    public readonly version = 1;
+
+    /**
+     * Helpers for Jalaali dates in DataviewJS queries
+     */
+    public readonly dataview: DataviewHelpers;
+
+    private plugin: PersianCalendarPlugin;
+    private listeners: { [event: string]: ((data: never) => void)[] } = {};
+
+    constructor(plugin: PersianCalendarPlugin) {
+        this.plugin = plugin;
+        this.dataview = new DataviewHelpers(plugin);
+    }
+
+    /**
+     * Jalaali date of a day. Defaults to today.
+     */
+    public toJalaali(date: ApiDate = new Date()): JalaaliDate {
+        if (date instanceof Date) {
+            return toJalaali(date);
+        }
+        if ('gy' in date) {
+            return toJalaali(date.gy, date.gm, date.gd);
+        }
+        return { jy: date.jy, jm: date.jm, jd: date.jd };
+    }
+
+    /**
+     * Gregorian date of a day. Defaults to today.
+     */
+    public toGregorian(date: ApiDate = new Date()): GregorianDate {
+        const { jy, jm, jd } = this.toJalaali(date);
+        return toGregorian(jy, jm, jd);
+    }
+
+    /**
+     * Hijri date of a day, with the Hijri calendar and adjustment of the settings. Defaults to today.
+     */
+    public getHijriDate(date: ApiDate = new Date()): HijriDate {
+        const settings = this.plugin.settings;
+        return getHijriDate(this.toJalaali(date), settings.hijriCalendarType, settings.hijriDateAdjustment);
+    }
+
+    /**
+     * Jalaali day of a Hijri date, with the Hijri calendar and adjustment of the settings.
+     * Returns null when no day has that Hijri date.
+     */
+    public fromHijri(date: HijriDate): JalaaliDate | null {
+        const settings = this.plugin.settings;
+        return getJalaaliFromHijri(date, settings.hijriCalendarType, settings.hijriDateAdjustment);
+    }
+
+    /**
+     * Events of a day as shown in the calendar: the enabled built-in calendars, custom events,
+     * anniversaries and imported .ics calendars. Defaults to today.
+     */
+    public getEvents(date: ApiDate = new Date()): CalendarEvent[] {
+        return getCalendarEventsForDate(this.plugin, this.toJalaali(date));
+    }
+
+    /**
+     * Path of the periodic note of a kind containing a day, from the folder and format
+     * settings, whether or not the note exists. Defaults to today.
+     */
+    public getPeriodicNotePath(kind: PeriodicNoteKind, date: ApiDate = new Date()): string {
+        return getPeriodicNotePath(this.plugin.settings, kind, this.toJalaali(date));
+    }
+
+    /**
+     * Open the periodic note of a kind containing a day, creating it from its template when
+     * it does not exist. Defaults to today.
+     */
+    public openPeriodicNote(kind: PeriodicNoteKind, date: ApiDate = new Date()): Promise<TFile | null> {
+        return this.plugin.openPeriodicNote(kind, this.toJalaali(date));
+    }
+
+    /**
+     * Replace every {{placeholder}} in the text, as in templates. Placeholders about "this"
+     * day, week, etc. are resolved from the note title, e.g. `tp.file.title`.
+     */
+    public expandPlaceholders(text: string, title = ''): string {
+        return this.plugin.placeholder?.expandPlaceholders(text, title) ?? text;
+    }
+
+    /**
+     * Value of one placeholder, with or without its braces, e.g. `resolvePlaceholder('امروز+1:jD jMMMM')`.
+     * Returns null when the placeholder is unknown or does not apply to the note title.
+     */
+    public resolvePlaceholder(placeholder: string, title = ''): string | null {
+        return this.plugin.placeholder?.resolvePlaceholderText(placeholder, title) ?? null;
+    }
+
+    /**
+     * Call the callback on every event of a kind until the returned function is called.
+     * Plugins should unsubscribe when they unload.
+     */
+    public on<K extends keyof PersianCalendarApiEvents>(event: K, callback: (data: PersianCalendarApiEvents[K]) => void): () => void {
+        const listeners = this.listeners[event] ?? (this.listeners[event] = []);
+        listeners.push(callback);
+        return () => {
+            const index = listeners.indexOf(callback);
+            if (index !== -1) {
+                listeners.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Tell the subscribers of an event. A failing subscriber is logged and does not stop the others.
+     */
+    public trigger<K extends keyof PersianCalendarApiEvents>(event: K, data: PersianCalendarApiEvents[K]): void {
+        (this.listeners[event] ?? []).slice().forEach(callback => {
+            try {
+                (callback as (data: PersianCalendarApiEvents[K]) => void)(data);
+            } catch (error) {
+                console.error(`Error in a persian-calendar '${event}' listener:`, error);
+            }
+        });
+    }
+}
@@ -0,0 +1,38 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks the user to confirm an action, e.g. replacing a file
+ */
+export default class ConfirmModal extends Modal {
+    private message: string;
+    private confirmText: string;
+    private onConfirm: () => void;
+
+    constructor(app: App, message: string, confirmText: string, onConfirm: () => void) {
+        super(app);
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.setAttribute('dir', 'rtl');
+        contentEl.createEl('p', { text: this.message });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(this.confirmText)
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm();
+                }))
+            .addButton(button => button
+                .setButtonText('انصراف')
+                .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,160 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS } from './settings';
+import CustomEventStore, {
+    CustomEventDate,
+    customEventMatchesDate,
+    normalizeCustomEvent,
+    parseCustomEventsFile,
+    parseMarkdownEvents,
+} from './customevents';
+
+// 1403-07-15 is 2024-10-06 and 1446-04-02 (ummalqura)
+const date: CustomEventDate = {
+    jalaali: { jy: 1403, jm: 7, jd: 15 },
+    gregorian: { gy: 2024, gm: 10, gd: 6 },
+    hijri: { hy: 1446, hm: 4, hd: 2 },
+};
+
+const parseYaml = (text: string) => JSON.parse(text);
+
+describe('normalizeCustomEvent', () => {
+    test('reads a yearly Jalali event from a date string', () => {
+        expect(normalizeCustomEvent({ title: 'تولد سارا', date: '07-15' })).toEqual({
+            title: 'تولد سارا', calendar: 'jalali', month: 7, day: 15, holiday: false,
+        });
+    });
+
+    test('reads a one-off event with all optional fields', () => {
+        expect(normalizeCustomEvent({
+            title: 'Offsite', date: '2024/10/06', calendar: 'Gregorian', holiday: true, category: 'Team', color: '#e67e22',
+        })).toEqual({
+            title: 'Offsite', calendar: 'gregorian', year: 2024, month: 10, day: 6, holiday: true, category: 'Team', color: '#e67e22',
+        });
+    });
+
+    test('reads month and day fields and Persian digits', () => {
+        expect(normalizeCustomEvent({ title: 'سالگرد', month: '۴', day: 2, calendar: 'قمری', holiday: 'بله' })).toEqual({
+            title: 'سالگرد', calendar: 'hijri', month: 4, day: 2, holiday: true,
+        });
+    });
+
+    test('drops invalid entries', () => {
+        expect(normalizeCustomEvent({ date: '07-15' })).toBeNull();
+        expect(normalizeCustomEvent({ title: 'x', date: '13-01' })).toBeNull();
+        expect(normalizeCustomEvent({ title: 'x', date: 'tomorrow' })).toBeNull();
+        expect(normalizeCustomEvent({ title: 'x', date: '01-01', calendar: 'mayan' })).toBeNull();
+        expect(normalizeCustomEvent('x')).toBeNull();
+    });
+});
+
+describe('parseMarkdownEvents', () => {
+    test('reads list items with inline fields and ignores other lines', () => {
+        const content = [
+            '# رویدادها',
+            'Some notes about the team.',
+            '- 07-15 تولد سارا [category:: خانواده] [color:: #e67e22]',
+            '* ۱۴۰۳-۰۸-۰۱ جلسه تیم [holiday:: true]',
+            '- [ ] 12-25 Christmas [calendar:: gregorian]',
+            '- not an event',
+        ].join('\n');
+
+        expect(parseMarkdownEvents(content)).toEqual([
+            { title: 'تولد سارا', calendar: 'jalali', month: 7, day: 15, holiday: false, category: 'خانواده', color: '#e67e22' },
+            { title: 'جلسه تیم', calendar: 'jalali', year: 1403, month: 8, day: 1, holiday: true },
+            { title: 'Christmas', calendar: 'gregorian', month: 12, day: 25, holiday: false },
+        ]);
+    });
+});
+
+describe('parseCustomEventsFile', () => {
+    test('reads a JSON list and a JSON object with events', () => {
+        const list = JSON.stringify([{ title: 'A', date: '01-01' }, { title: '' }]);
+        expect(parseCustomEventsFile(list, 'json', parseYaml)).toHaveLength(1);
+
+        const wrapped = JSON.stringify({ events: [{ title: 'A', date: '01-01' }, { title: 'B', date: '02-02' }] });
+        expect(parseCustomEventsFile(wrapped, 'json', parseYaml)).toHaveLength(2);
+    });
+
+    test('hands YAML to the given parser', () => {
+        const yaml = jest.fn(() => [{ title: 'A', date: '01-01', calendar: 'hijri' }]);
+        expect(parseCustomEventsFile('- title: A', 'yaml', yaml)).toEqual([
+            { title: 'A', calendar: 'hijri', month: 1, day: 1, holiday: false },
+        ]);
+        expect(yaml).toHaveBeenCalledWith('- title: A');
+    });
+
+    test('returns nothing for files without an events list', () => {
+        expect(parseCustomEventsFile('{"title": "A"}', 'json', parseYaml)).toEqual([]);
+        expect(parseCustomEventsFile('null', 'json', parseYaml)).toEqual([]);
+    });
+});
+
+describe('customEventMatchesDate', () => {
+    test('matches each calendar against its own date', () => {
+        expect(customEventMatchesDate({ title: 'a', calendar: 'jalali', month: 7, day: 15, holiday: false }, date)).toBe(true);
+        expect(customEventMatchesDate({ title: 'b', calendar: 'gregorian', month: 10, day: 6, holiday: false }, date)).toBe(true);
+        expect(customEventMatchesDate({ title: 'c', calendar: 'hijri', month: 4, day: 2, holiday: false }, date)).toBe(true);
+        expect(customEventMatchesDate({ title: 'd', calendar: 'hijri', month: 7, day: 15, holiday: false }, date)).toBe(false);
+    });
+
+    test('one-off events match only their year', () => {
+        expect(customEventMatchesDate({ title: 'a', calendar: 'jalali', year: 1403, month: 7, day: 15, holiday: false }, date)).toBe(true);
+        expect(customEventMatchesDate({ title: 'a', calendar: 'jalali', year: 1402, month: 7, day: 15, holiday: false }, date)).toBe(false);
+    });
+});
+
+describe('CustomEventStore', () => {
+    function createStore(files: { [path: string]: string }, customEventsPath: string): CustomEventStore {
+        const plugin = {
+            settings: { ...DEFAULT_SETTINGS, customEventsPath },
+            app: {
+                vault: {
+                    getFiles: jest.fn(() => Object.keys(files).map(path => ({ path, extension: path.split('.').pop() }))),
+                    cachedRead: jest.fn(async (file: { path: string }) => files[file.path]),
+                },
+            },
+        } as unknown as PersianCalendarPlugin;
+        return new CustomEventStore(plugin, parseYaml);
+    }
+
+    test('loads every supported file of a folder', async () => {
+        const store = createStore({
+            'Events/team.md': '- 07-15 Standup retro',
+            'Events/holidays.json': JSON.stringify([{ title: 'Company day', date: '10-06', calendar: 'gregorian', holiday: true }]),
+            'Events/logo.png': 'binary',
+            'Other/note.md': '- 07-15 Not an event source',
+        }, '/Events/');
+        await store.load();
+
+        expect(store.getEvents().map(event => event.title)).toEqual(['Standup retro', 'Company day']);
+        expect(store.getEventsForDate(date).map(event => event.title)).toEqual(['Standup retro', 'Company day']);
+    });
+
+    test('loads a single file and recognizes its path', async () => {
+        const store = createStore({ 'events.md': '- 01-01 Nowruz party', 'events.md.bak': '' }, 'events.md');
+        await store.load();
+
+        expect(store.getEvents()).toHaveLength(1);
+        expect(store.isSourcePath('events.md')).toBe(true);
+        expect(store.isSourcePath('events.md.bak')).toBe(false);
+        expect(store.isSourcePath('other.md')).toBe(false);
+    });
+
+    test('keeps going when one file cannot be parsed', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const store = createStore({ 'Events/broken.json': '{', 'Events/ok.md': '- 01-01 ok' }, 'Events');
+        await store.load();
+
+        expect(store.getEvents().map(event => event.title)).toEqual(['ok']);
+        expect(consoleError).toHaveBeenCalled();
+        consoleError.mockRestore();
+    });
+
+    test('has no events without a configured path', async () => {
+        const store = createStore({ 'events.md': '- 01-01 x' }, '');
+        await store.load();
+
+        expect(store.getEvents()).toEqual([]);
+        expect(store.isSourcePath('events.md')).toBe(false);
+    });
+});
@@ -0,0 +1,217 @@
+import type PersianCalendarPlugin from './main';
+
+export type CustomEventCalendar = 'jalali' | 'gregorian' | 'hijri';
+
+/**
+ * One user-defined event. Without a year the event repeats every year of its calendar.
+ */
+export interface CustomEvent {
+    title: string;
+    calendar: CustomEventCalendar;
+    year?: number;
+    month: number;
+    day: number;
+    holiday: boolean;
+    category?: string;
+    color?: string;
+}
+
+/**
+ * The same day in the three calendars, so events of any calendar can be matched against it
+ */
+export interface CustomEventDate {
+    jalaali: { jy: number, jm: number, jd: number };
+    gregorian: { gy: number, gm: number, gd: number };
+    hijri: { hy: number, hm: number, hd: number };
+}
+
+const CALENDAR_ALIASES: { [alias: string]: CustomEventCalendar } = {
+    'jalali': 'jalali', 'jalaali': 'jalali', 'persian': 'jalali', 'shamsi': 'jalali', 'شمسی': 'jalali',
+    'gregorian': 'gregorian', 'miladi': 'gregorian', 'میلادی': 'gregorian',
+    'hijri': 'hijri', 'islamic': 'hijri', 'qamari': 'hijri', 'قمری': 'hijri',
+};
+
+const SUPPORTED_EXTENSIONS = ['md', 'json', 'yaml', 'yml'];
+
+export function toLatinDigits(text: string): string {
+    return text.replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+        .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660));
+}
+
+function parseBoolean(value: unknown): boolean {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    return typeof value === 'string' && ['true', 'yes', 'بله', 'تعطیل'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Read `[YYYY-]MM-DD` (with `-` or `/`, Persian or Latin digits) into its parts
+ */
+export function parseEventDate(text: string): { year?: number, month: number, day: number } | null {
+    const match = toLatinDigits(text.trim()).match(/^(?:(\d{4})[-/])?(\d{1,2})[-/](\d{1,2})$/);
+    if (!match) {
+        return null;
+    }
+    return {
+        year: match[1] ? parseInt(match[1]) : undefined,
+        month: parseInt(match[2]),
+        day: parseInt(match[3]),
+    };
+}
+
+/**
+ * Turn one raw event object from a JSON or YAML file into a CustomEvent.
+ * Either `date` or `month` and `day` must be given; invalid entries are dropped.
+ */
+export function normalizeCustomEvent(raw: unknown): CustomEvent | null {
+    if (!raw || typeof raw !== 'object') {
+        return null;
+    }
+    const entry = raw as { [key: string]: unknown };
+    const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+    if (!title) {
+        return null;
+    }
+
+    let date: { year?: number, month: number, day: number } | null;
+    if (entry.date !== undefined) {
+        date = parseEventDate(String(entry.date));
+    } else {
+        const toNumber = (value: unknown) => value === undefined ? undefined : parseInt(toLatinDigits(String(value)));
+        const month = toNumber(entry.month);
+        const day = toNumber(entry.day);
+        date = month && day ? { year: toNumber(entry.year), month, day } : null;
+    }
+    if (!date || date.month < 1 || date.month > 12 || date.day < 1 || date.day > 31) {
+        return null;
+    }
+
+    const calendar = CALENDAR_ALIASES[String(entry.calendar ?? 'jalali').trim().toLowerCase()];
+    if (!calendar) {
+        return null;
+    }
+
+    const event: CustomEvent = { title, calendar, month: date.month, day: date.day, holiday: parseBoolean(entry.holiday) };
+    if (date.year) {
+        event.year = date.year;
+    }
+    if (typeof entry.category === 'string' && entry.category.trim()) {
+        event.category = entry.category.trim();
+    }
+    if (typeof entry.color === 'string' && entry.color.trim()) {
+        event.color = entry.color.trim();
+    }
+    return event;
+}
+
+/**
+ * Read the events of a markdown note: one list item per event, the date first and
+ * optional Dataview-style fields after the title, e.g.
+ * `- 12-25 Christmas [calendar:: gregorian] [holiday:: true] [category:: Team] [color:: #e67e22]`.
+ * Lines that are not such list items are ignored.
+ */
+export function parseMarkdownEvents(content: string): CustomEvent[] {
+    const events: CustomEvent[] = [];
+    content.split('\n').forEach(line => {
+        const match = line.match(/^\s*[-*+]\s+(?:\[[ xX]\]\s+)?([0-9۰-۹/-]+)\s+(.+)$/);
+        if (!match) {
+            return;
+        }
+        const raw: { [key: string]: string } = { date: match[1] };
+        raw.title = match[2].replace(/\[([^\]:]+)::\s*([^\]]*)\]/g, (_field, key: string, value: string) => {
+            raw[key.trim().toLowerCase()] = value.trim();
+            return '';
+        });
+        const event = normalizeCustomEvent(raw);
+        if (event) {
+            events.push(event);
+        }
+    });
+    return events;
+}
+
+/**
+ * Read the events of one file. JSON and YAML files hold either a list of events or
+ * an object with an `events` list.
+ */
+export function parseCustomEventsFile(content: string, extension: string, parseYaml: (text: string) => unknown): CustomEvent[] {
+    if (extension === 'md') {
+        return parseMarkdownEvents(content);
+    }
+
+    const data = extension === 'json' ? JSON.parse(content) : parseYaml(content);
+    const list = Array.isArray(data) ? data : (data as { events?: unknown } | null)?.events;
+    if (!Array.isArray(list)) {
+        return [];
+    }
+    return list.map(normalizeCustomEvent).filter((event): event is CustomEvent => event !== null);
+}
+
+export function customEventMatchesDate(event: CustomEvent, date: CustomEventDate): boolean {
+    let year: number, month: number, day: number;
+    if (event.calendar === 'gregorian') {
+        ({ gy: year, gm: month, gd: day } = date.gregorian);
+    } else if (event.calendar === 'hijri') {
+        ({ hy: year, hm: month, hd: day } = date.hijri);
+    } else {
+        ({ jy: year, jm: month, jd: day } = date.jalaali);
+    }
+    return event.month === month && event.day === day && (event.year === undefined || event.year === year);
+}
+
+/**
+ * Events loaded from the file or folder set in the settings. Files are read
+ * asynchronously on load and on change, lookups are synchronous from the loaded list.
+ */
+export default class CustomEventStore {
+    plugin: PersianCalendarPlugin;
+    private parseYaml: (text: string) => unknown;
+    private events: CustomEvent[] = [];
+
+    constructor(plugin: PersianCalendarPlugin, parseYaml: (text: string) => unknown) {
+        this.plugin = plugin;
+        this.parseYaml = parseYaml;
+    }
+
+    public async load(): Promise<void> {
+        const events: CustomEvent[] = [];
+        for (const file of this.getSourceFiles()) {
+            try {
+                const content = await this.plugin.app.vault.cachedRead(file);
+                events.push(...parseCustomEventsFile(content, file.extension, this.parseYaml));
+            } catch (error) {
+                console.error(`Could not read custom events from ${file.path}:`, error);
+            }
+        }
+        this.events = events;
+    }
+
+    /**
+     * Whether a change to this path can change the loaded events
+     */
+    public isSourcePath(path: string): boolean {
+        const sourcePath = this.getSourcePath();
+        if (!sourcePath) {
+            return false;
+        }
+        return (path === sourcePath || path.startsWith(`${sourcePath}/`))
+            && SUPPORTED_EXTENSIONS.includes(path.split('.').pop() ?? '');
+    }
+
+    public getEvents(): CustomEvent[] {
+        return this.events;
+    }
+
+    public getEventsForDate(date: CustomEventDate): CustomEvent[] {
+        return this.events.filter(event => customEventMatchesDate(event, date));
+    }
+
+    private getSourcePath(): string {
+        return this.plugin.settings.customEventsPath.trim().replace(/^\/+|\/+$/g, '');
+    }
+
+    private getSourceFiles() {
+        return this.plugin.app.vault.getFiles().filter(file => this.isSourcePath(file.path));
+    }
+}
@@ -0,0 +1,73 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS } from './settings';
+import DataviewHelpers, { LuxonLike, readJalaaliDate } from './dataview';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+// 1403-05-11 is Thursday 2024-08-01
+const date = { jy: 1403, jm: 5, jd: 11 };
+
+const luxon: LuxonLike = {
+    DateTime: {
+        local: (year, month, day) => ({ year, month, day, toJSDate: () => new Date(year, month - 1, day) }),
+    },
+};
+
+describe('readJalaaliDate', () => {
+    test('reads Jalaali strings with any separator and digits', () => {
+        expect(readJalaaliDate('1403-05-11')).toEqual(date);
+        expect(readJalaaliDate(' ۱۴۰۳/۵/۱۱ ')).toEqual(date);
+        expect(readJalaaliDate('1403.05.11')).toEqual(date);
+        expect(readJalaaliDate('2024-08-01')).toEqual(date);
+    });
+
+    test('reads links to daily notes by their name', () => {
+        expect(readJalaaliDate('[[Journal/1403/1403-05-11|پنج‌شنبه]]')).toEqual(date);
+        expect(readJalaaliDate({ path: 'Journal/1403-05-11.md', display: 'x' })).toEqual(date);
+    });
+
+    test('reads Luxon, JavaScript and Jalaali dates', () => {
+        expect(readJalaaliDate(luxon.DateTime.local(2024, 8, 1))).toEqual(date);
+        expect(readJalaaliDate(new Date(2024, 7, 1))).toEqual(date);
+        expect(readJalaaliDate({ ...date })).toEqual(date);
+    });
+
+    test('keeps Jalaali numbers Dataview read as a Luxon date', () => {
+        expect(readJalaaliDate({ year: 1403, month: 5, day: 1 })).toEqual({ jy: 1403, jm: 5, jd: 1 });
+        expect(readJalaaliDate({ year: 1403, month: 12, day: 31 })).toBeNull();
+    });
+
+    test('rejects everything else', () => {
+        expect(readJalaaliDate('1403-12-31')).toBeNull();
+        expect(readJalaaliDate('2024-02-30')).toBeNull();
+        expect(readJalaaliDate('جلسه')).toBeNull();
+        expect(readJalaaliDate(undefined)).toBeNull();
+        expect(readJalaaliDate(1403)).toBeNull();
+    });
+});
+
+describe('DataviewHelpers', () => {
+    const helpers = new DataviewHelpers({ settings: DEFAULT_SETTINGS } as unknown as PersianCalendarPlugin);
+
+    test('converts Jalaali fields to JavaScript and Luxon dates', () => {
+        expect(helpers.toDate('1403-05-11')).toEqual(new Date(2024, 7, 1));
+        expect(helpers.toDateTime('1403-05-11', luxon)).toMatchObject({ year: 2024, month: 8, day: 1 });
+        expect(helpers.toDateTime('1403-05-11')).toBeNull();
+        expect(helpers.toDate('')).toBeNull();
+    });
+
+    test('formats Dataview dates as Jalaali', () => {
+        expect(helpers.format(luxon.DateTime.local(2024, 8, 1))).toBe('1403-05-11');
+        expect(helpers.format('1403-05-11', 'jD jMMMM jYYYY', 'fa')).toBe('۱۱ مرداد ۱۴۰۳');
+        expect(helpers.format(null)).toBeNull();
+    });
+
+    test('groups by Jalaali periods', () => {
+        expect(helpers.month('1403-05-11')).toBe('1403-05');
+        expect(helpers.quarter(new Date(2024, 7, 1))).toBe('1403-Q2');
+        expect(helpers.week('1403-05-11')).toMatch(/^1403-W\d\d$/);
+        expect(helpers.period('1403-05-11', 'year')).toBe('1403');
+        expect(helpers.month('later')).toBeNull();
+    });
+});
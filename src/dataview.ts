@@ -0,0 +1,148 @@
+import { isValidJalaaliDate, toGregorian, toJalaali } from 'jalaali-js';
+import type PersianCalendarPlugin from './main';
+import type { JalaaliDate } from './settings';
+import { toLatinDigits } from './customevents';
+import { getDatePropertyValue } from './periodicnotes';
+import { formatPlaceholderDate, PlaceholderLanguage } from './placeholdersyntax';
+
+/**
+ * The part of a Luxon DateTime used here. Dataview returns date fields as Luxon DateTimes.
+ */
+export interface DateTimeLike {
+    year: number;
+    month: number;
+    day: number;
+    toJSDate(): Date;
+}
+
+/**
+ * Luxon as Dataview exposes it in `dv.luxon`
+ */
+export interface LuxonLike {
+    DateTime: { local(year: number, month: number, day: number): DateTimeLike };
+}
+
+export type JalaaliPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Jalaali day of a Dataview value, or null when it is not a date. Values can be Jalaali
+ * strings such as `1403-05-01`, links to daily notes, Luxon or JavaScript dates and Jalaali
+ * date objects. Strings may use Persian digits and `-`, `/` or `.` separators. In strings
+ * and Luxon dates years above 1500 are taken as Gregorian, like the date conversion command. Links are read from the
+ * name of the note they point to.
+ */
+export function readJalaaliDate(value: unknown): JalaaliDate | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : toJalaali(value);
+    }
+    if (typeof value === 'string') {
+        return parseDateText(value);
+    }
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const object = value as { [key: string]: unknown };
+    if (typeof object.jy === 'number' && typeof object.jm === 'number' && typeof object.jd === 'number') {
+        return isValidJalaaliDate(object.jy, object.jm, object.jd) ? { jy: object.jy, jm: object.jm, jd: object.jd } : null;
+    }
+    if (typeof object.year === 'number' && typeof object.month === 'number' && typeof object.day === 'number') {
+        // Dataview also reads `jalali:: 1403-05-01` as a date, keeping the Jalaali numbers
+        return toDateFromNumbers(object.year, object.month, object.day);
+    }
+    if (typeof object.path === 'string') {
+        return parseDateText(object.path);
+    }
+    return null;
+}
+
+function parseDateText(text: string): JalaaliDate | null {
+    const pattern = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+    // Otherwise the note name of a [[link]] or path, without its alias and extension
+    const name = text.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0].split('/').pop()?.replace(/\.md$/, '') ?? '';
+    const match = toLatinDigits(text.trim()).match(pattern) ?? toLatinDigits(name).match(pattern);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    return toDateFromNumbers(year, month, day);
+}
+
+// Years above 1500 are Gregorian, the others Jalaali
+function toDateFromNumbers(year: number, month: number, day: number): JalaaliDate | null {
+    if (year > 1500) {
+        const date = new Date(year, month - 1, day);
+        return date.getMonth() === month - 1 ? toJalaali(year, month, day) : null;
+    }
+    return isValidJalaaliDate(year, month, day) ? { jy: year, jm: month, jd: day } : null;
+}
+
+/**
+ * Helpers for DataviewJS queries, available as `api.dataview`. They read Jalaali strings,
+ * which Dataview keeps as text, and Dataview dates, which are Gregorian.
+ */
+export default class DataviewHelpers {
+    private plugin: PersianCalendarPlugin;
+
+    constructor(plugin: PersianCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * JavaScript date at local midnight of a value, or null when it is not a date
+     */
+    public toDate(value: unknown): Date | null {
+        const date = readJalaaliDate(value);
+        if (!date) {
+            return null;
+        }
+        const { gy, gm, gd } = toGregorian(date.jy, date.jm, date.jd);
+        return new Date(gy, gm - 1, gd);
+    }
+
+    /**
+     * Luxon DateTime of a value, so Jalaali fields can be sorted and compared like Dataview dates.
+     * Uses the Luxon of Dataview unless another one is given, e.g. `dv.luxon`.
+     */
+    public toDateTime(value: unknown, luxon: LuxonLike | undefined = this.getDataviewLuxon()): DateTimeLike | null {
+        const date = readJalaaliDate(value);
+        if (!date || !luxon) {
+            return null;
+        }
+        const { gy, gm, gd } = toGregorian(date.jy, date.jm, date.jd);
+        return luxon.DateTime.local(gy, gm, gd);
+    }
+
+    /**
+     * A value written with moment-jalaali tokens, e.g. `jD jMMMM jYYYY`, as in placeholders
+     */
+    public format(value: unknown, format = 'jYYYY-jMM-jDD', language?: PlaceholderLanguage): string | null {
+        const date = readJalaaliDate(value);
+        return date ? formatPlaceholderDate(date, { format, language }, this.plugin.settings) : null;
+    }
+
+    /**
+     * Sortable key of the Jalaali week, month, quarter or year of a value, e.g. `1403-W19`,
+     * `1403-05`, `1403-Q2` or `1403`, for `groupBy`
+     */
+    public period(value: unknown, period: JalaaliPeriod): string | null {
+        const date = readJalaaliDate(value);
+        return date ? String(getDatePropertyValue(period, date, this.plugin.settings)) : null;
+    }
+
+    public week(value: unknown): string | null {
+        return this.period(value, 'week');
+    }
+
+    public month(value: unknown): string | null {
+        return this.period(value, 'month');
+    }
+
+    public quarter(value: unknown): string | null {
+        return this.period(value, 'quarter');
+    }
+
+    private getDataviewLuxon(): LuxonLike | undefined {
+        const app = this.plugin.app as unknown as { plugins?: { plugins: { [id: string]: { api?: { luxon?: LuxonLike } } } } } | undefined;
+        return app?.plugins?.plugins.dataview?.api?.luxon;
+    }
+}
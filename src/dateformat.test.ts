@@ -4,166 +4,11 @@
 
 import { formatDatePath, generateNotePath, extractFolderPath, extractDateFromPath, DateFormatComponents } from './dateformat';
 
-// Mock moment-jalaali
-jest.mock('moment-jalaali', () => {
-  const actualMoment = jest.requireActual('moment');
-  
-  const createMockMoment = (jy: number, jm: number, jd: number, jw?: number) => {
-    const m = actualMoment();
-    m._jy = jy;
-    m._jm = jm - 1; // moment uses 0-indexed months
-    m._jd = jd;
-    m._jw = jw || Math.ceil(jd / 7);
-    
-    m.jYear = (val?: number) => {
-      if (val !== undefined) {
-        m._jy = val;
-        return m;
-      }
-      return m._jy;
-    };
-    m.jMonth = (val?: number) => {
-      if (val !== undefined) {
-        m._jm = val;
-        return m;
-      }
-      return m._jm;
-    };
-    m.jDate = () => m._jd;
-    m.jWeek = (val?: number) => {
-      if (val !== undefined) {
-        m._jw = val;
-        return m;
-      }
-      return m._jw;
-    };
-    
-    m.format = (fmt: string) => {
-      let result = fmt;
-      
-      // Handle moment.js escape sequences [text] - these become literal text
-      // We need to protect them during token replacement
-      const escapedParts: string[] = [];
-      result = result.replace(/\[([^\]]+)\]/g, (match, content) => {
-        const placeholder = `__ESCAPED_${escapedParts.length}__`;
-        escapedParts.push(content);
-        return placeholder;
-      });
-      
-      // Replace all j-prefixed tokens
-      result = result.replace(/jYYYY/g, String(m._jy).padStart(4, '0'));
-      result = result.replace(/jMM/g, String(jm).padStart(2, '0'));
-      result = result.replace(/jM/g, String(jm));
-      result = result.replace(/jDD/g, String(m._jd).padStart(2, '0'));
-      result = result.replace(/jD/g, String(m._jd));
-      result = result.replace(/jMMMM/g, 'MonthName'); // Simplified
-      result = result.replace(/ww/g, String(m._jw).padStart(2, '0'));
-      
-      // Restore escaped parts
-      escapedParts.forEach((content, index) => {
-        result = result.replace(`__ESCAPED_${index}__`, content);
-      });
-      
-      return result;
-    };
-    m.isValid = () => true;
-    
-    return m;
-  };
-  
-  const mockMoment: any = (input?: any, format?: any) => {
-    if (!input && !format) {
-      // moment() with no args - create a special mock that can handle both calendars
-      const persianMock = createMockMoment(1403, 8, 15, 32);
-      const gregorianMock = actualMoment();
-      
-      // Create a hybrid that delegates to the right one based on which methods are called
-      const hybrid: any = {};
-      let usedPersian = false;
-      let usedGregorian = false;
-      
-      // Persian methods
-      hybrid.jYear = (val?: number) => {
-        usedPersian = true;
-        return persianMock.jYear(val);
-      };
-      hybrid.jWeek = (val?: number) => {
-        usedPersian = true;
-        return persianMock.jWeek(val);
-      };
-      
-      // Gregorian methods
-      hybrid.year = (val?: number) => {
-        usedGregorian = true;
-        if (val !== undefined) {
-          gregorianMock.year(val);
-          return hybrid;
-        }
-        return gregorianMock.year();
-      };
-      hybrid.week = (val?: number) => {
-        usedGregorian = true;
-        if (val !== undefined) {
-          gregorianMock.week(val);
-          return hybrid;
-        }
-        return gregorianMock.week();
-      };
-      
-      // Format delegates to the right one
-      hybrid.format = (fmt: string) => {
-        if (usedPersian || fmt.includes('j')) {
-          return persianMock.format(fmt);
-        }
-        return gregorianMock.format(fmt);
-      };
-      
-      return hybrid;
-    }
-    
-    if (typeof input === 'string' && format) {
-      // Parse jalaali format
-      if (format.includes('jYYYY')) {
-        const parts = input.split('/');
-        const jy = parseInt(parts[0]);
-        const jm = parts[1] ? parseInt(parts[1]) : 1;
-        const jd = parts[2] ? parseInt(parts[2]) : 1;
-        return createMockMoment(jy, jm, jd);
-      }
-    }
-    
-    // For Gregorian dates
-    const m = actualMoment(input, format);
-    if (!m.jYear) {
-      m.jYear = () => 1403;
-      m.jMonth = () => 7;
-      m.jDate = () => 15;
-      m.jWeek = () => 32;
-      const originalFormat = m.format.bind(m);
-      m.format = (fmt: string) => {
-        if (fmt && fmt.includes('j')) {
-          // It's a jalaali format, use our mock values
-          let result = fmt;
-          result = result.replace(/jYYYY/g, '1403');
-          result = result.replace(/jMM/g, '08');
-          result = result.replace(/jM/g, '8');
-          result = result.replace(/jDD/g, '15');
-          result = result.replace(/jD/g, '15');
-          result = result.replace(/jMMMM/g, 'MonthName');
-          result = result.replace(/ww/g, '32');
-          return result;
-        }
-        return originalFormat(fmt);
-      };
-    }
-    return m;
-  };
-  
-  mockMoment.loadPersian = jest.fn();
-  mockMoment.default = mockMoment;
-  
-  return mockMoment;
-});
+// moment-jalaali is CommonJS; expose it as a default export the same way the esbuild bundle does
+jest.mock('moment-jalaali', () => ({
+  __esModule: true,
+  default: jest.requireActual('moment-jalaali'),
+}));
 
 describe('formatDatePath', () => {
   describe('Persian Calendar (Jalaali) formatting', () => {
@@ -362,13 +207,11 @@ describe('extractDateFromPath', () => {
     });
 
     test('extracts date from nested folder structure', () => {
-      // The extraction function looks at the entire remaining path after the base
-      // For path: daily/1403/08/1403-08-15.md, after removing "daily/": 1403/08/1403-08-15
-      // It will match the first date pattern it finds: 1403/08/1403
+      // The folder segments are part of the pattern, so the whole remaining path is parsed
       const result = extractDateFromPath('daily/1403/08/1403-08-15.md', 'daily', 'YYYY/MM/YYYY-MM-DD', true);
-      // Just verify we got some valid date
       expect(result).toBeTruthy();
       expect(result?.year).toBe(1403);
+      expect(result).toEqual({ year: 1403, month: 8, day: 15 });
     });
 
     test('extracts date with single digit month and day', () => {
@@ -463,11 +306,10 @@ describe('Integration tests', () => {
     const path = generateNotePath(basePath, pattern, components, true);
     expect(path).toBe('daily/1403/08/1403-08-15.md');
     
-    // Note: extraction from nested paths is simplified and may not perfectly reverse engineer
-    // the original date from complex patterns
     const extracted = extractDateFromPath(path, basePath, pattern, true);
     expect(extracted).toBeTruthy();
     expect(extracted?.year).toBe(1403);
+    expect(extracted).toEqual(components);
   });
 
   test('round trip for weekly notes', () => {
@@ -540,3 +382,138 @@ describe('Error handling and edge cases', () => {
     expect(result).toBe('');
   });
 });
+
+describe('Round trip between formatDatePath and extractDateFromPath', () => {
+  const jalaaliDays = (years: number[]): DateFormatComponents[] => {
+    const days: DateFormatComponents[] = [];
+    years.forEach(year => {
+      for (let month = 1; month <= 12; month++) {
+        const length = month <= 6 ? 31 : month < 12 ? 30 : (year === 1403 ? 30 : 29);
+        for (let day = 1; day <= length; day++) {
+          days.push({ year, month, day });
+        }
+      }
+    });
+    return days;
+  };
+
+  const gregorianDays = (years: number[]): DateFormatComponents[] => {
+    const days: DateFormatComponents[] = [];
+    years.forEach(year => {
+      for (let month = 1; month <= 12; month++) {
+        const length = new Date(year, month, 0).getDate();
+        for (let day = 1; day <= length; day++) {
+          days.push({ year, month, day });
+        }
+      }
+    });
+    return days;
+  };
+
+  const weeks = (years: number[]): DateFormatComponents[] =>
+    years.flatMap(year => Array.from({ length: 53 }, (_, i) => ({ year, month: 1, week: i + 1 })));
+
+  const months = (years: number[]): DateFormatComponents[] =>
+    years.flatMap(year => Array.from({ length: 12 }, (_, i) => ({ year, month: i + 1 })));
+
+  const quarters = (years: number[]): DateFormatComponents[] =>
+    years.flatMap(year => [1, 2, 3, 4].map(quarter => ({ year, month: 1, quarter })));
+
+  const years = (range: number[]): DateFormatComponents[] => range.map(year => ({ year, month: 1 }));
+
+  const kinds: { kind: string; patterns: string[]; persian: DateFormatComponents[]; gregorian: DateFormatComponents[] }[] = [
+    {
+      kind: 'daily',
+      patterns: [
+        'YYYY-MM-DD',
+        'DD-MM-YYYY',
+        'YYYY/MM/YYYY-MM-DD',
+        'YYYY/MMMM/DD',
+        'YYYY/jMMMM/DD',
+        'YYYY/MM-MMMM/YYYY-MM-DD',
+        'YYYY/[Q]Q/MMM/D',
+        'YYYY/[W]WW/YYYY-MM-DD',
+        '[Daily] YYYY.M.D dddd',
+        'jYYYY-jMM-jDD ddd',
+        'YY-MM-DD',
+      ],
+      persian: jalaaliDays([1402, 1403]),
+      gregorian: gregorianDays([2023, 2024]),
+    },
+    {
+      kind: 'weekly',
+      patterns: ['YYYY-[W]WW', 'YYYY/YYYY-[W]WW', 'YYYY/[W]W', '[Week] ww [of] YYYY'],
+      persian: weeks([1402, 1403]),
+      gregorian: weeks([2023, 2024]),
+    },
+    {
+      kind: 'monthly',
+      patterns: ['YYYY-MM', 'YYYY/YYYY-MM', 'YYYY/MMMM', 'YYYY/MM-MMMM', 'MMM YYYY'],
+      persian: months([1402, 1403]),
+      gregorian: months([2023, 2024]),
+    },
+    {
+      kind: 'quarterly',
+      patterns: ['YYYY-[Q]Q', 'YYYY/YYYY-[Q]Q', '[Q]Q YYYY'],
+      persian: quarters([1402, 1403]),
+      gregorian: quarters([2023, 2024]),
+    },
+    {
+      kind: 'yearly',
+      patterns: ['YYYY', '[Year] YYYY', 'YYYY/YYYY'],
+      persian: years([1399, 1400, 1403]),
+      gregorian: years([2020, 2021, 2024]),
+    },
+  ];
+
+  kinds.forEach(({ kind, patterns, persian, gregorian }) => {
+    describe(`${kind} notes`, () => {
+      patterns.forEach(pattern => {
+        test(`every Jalaali ${kind} note survives a round trip through "${pattern}"`, () => {
+          persian.forEach(components => {
+            const path = generateNotePath('notes/periodic', pattern, components, true);
+            expect(extractDateFromPath(path, 'notes/periodic', pattern, true)).toEqual(components);
+          });
+        });
+
+        test(`every Gregorian ${kind} note survives a round trip through "${pattern}"`, () => {
+          gregorian.forEach(components => {
+            const path = generateNotePath('', pattern, components, false);
+            expect(extractDateFromPath(path, '', pattern, false)).toEqual(components);
+          });
+        });
+      });
+    });
+  });
+
+  test('formats month names in the Jalaali calendar', () => {
+    expect(formatDatePath('YYYY/jMMMM/DD', { year: 1403, month: 5, day: 1 }, true)).toBe('1403/مرداد/01');
+    expect(extractDateFromPath('1403/مرداد/01.md', '', 'YYYY/jMMMM/DD', true)).toEqual({ year: 1403, month: 5, day: 1 });
+  });
+
+  test('distinguishes DD-MM-YYYY from YYYY-MM-DD', () => {
+    expect(extractDateFromPath('15-08-1403.md', '', 'DD-MM-YYYY', true)).toEqual({ year: 1403, month: 8, day: 15 });
+    expect(extractDateFromPath('1403-08-15.md', '', 'DD-MM-YYYY', true)).toBeNull();
+  });
+
+  test('does not mistake other periodic notes for daily notes', () => {
+    expect(extractDateFromPath('1403-W12.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403-Q2.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403-05.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403-05-01.md', '', 'YYYY-MM', true)).toBeNull();
+  });
+
+  test('rejects dates that do not exist', () => {
+    expect(extractDateFromPath('1402-12-30.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403-13-01.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403-07-31.md', '', 'YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('2023-02-29.md', '', 'YYYY-MM-DD', false)).toBeNull();
+  });
+
+  test('rejects paths whose repeated or derived fields disagree', () => {
+    expect(extractDateFromPath('1402/1403-08-15.md', '', 'YYYY/YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403/07-آبان/1403-07-15.md', '', 'YYYY/MM-MMMM/YYYY-MM-DD', true)).toBeNull();
+    expect(extractDateFromPath('1403/Q1/مرداد/1.md', '', 'YYYY/[Q]Q/MMM/D', true)).toBeNull();
+    expect(extractDateFromPath('[Daily] 1403.5.1 جمعه.md', '', '[Daily] YYYY.M.D dddd', true)).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import moment from 'moment-jalaali';
+import { toGregorian, jalaaliMonthLength } from 'jalaali-js';
 
 /**
  * Utility to parse date format patterns and generate file paths with folder structure
@@ -6,6 +7,9 @@ import moment from 'moment-jalaali';
  * - YYYY-MM-DD (simple filename)
  * - YYYY/MM/YYYY-MM-DD (creates year/month folders)
  * - YYYY/MM-MMMM/YYYY-MM-DD (creates year/month-monthname folders)
+ *
+ * Every pattern is compiled once into a list of tokens which is used both to
+ * format a path and to parse it back, so the two directions always agree.
  */
 
 export interface DateFormatComponents {
@@ -16,8 +20,170 @@ export interface DateFormatComponents {
     quarter?: number;
 }
 
+type DateField = 'year' | 'shortYear' | 'month' | 'monthName' | 'shortMonthName'
+    | 'day' | 'weekday' | 'shortWeekday' | 'week' | 'quarter';
+
+type FormatToken =
+    | { type: 'literal'; text: string }
+    | { type: 'field'; field: DateField; pad: number };
+
+/**
+ * A date format pattern compiled for one calendar
+ */
+export interface CompiledDateFormat {
+    pattern: string;
+    usePersian: boolean;
+    tokens: FormatToken[];
+    format(components: DateFormatComponents): string;
+    parse(text: string): DateFormatComponents | null;
+}
+
+// Ordered longest first so that e.g. MMMM wins over MM. A leading "j" (moment-jalaali style) is accepted as an alias.
+const TOKEN_TABLE: { token: string; field: DateField; pad: number; jalaliAlias: boolean }[] = [
+    { token: 'YYYY', field: 'year', pad: 4, jalaliAlias: true },
+    { token: 'YY', field: 'shortYear', pad: 2, jalaliAlias: true },
+    { token: 'MMMM', field: 'monthName', pad: 0, jalaliAlias: true },
+    { token: 'MMM', field: 'shortMonthName', pad: 0, jalaliAlias: true },
+    { token: 'MM', field: 'month', pad: 2, jalaliAlias: true },
+    { token: 'M', field: 'month', pad: 1, jalaliAlias: true },
+    { token: 'DD', field: 'day', pad: 2, jalaliAlias: true },
+    { token: 'D', field: 'day', pad: 1, jalaliAlias: true },
+    { token: 'dddd', field: 'weekday', pad: 0, jalaliAlias: false },
+    { token: 'ddd', field: 'shortWeekday', pad: 0, jalaliAlias: false },
+    { token: 'WW', field: 'week', pad: 2, jalaliAlias: false },
+    { token: 'ww', field: 'week', pad: 2, jalaliAlias: false },
+    { token: 'W', field: 'week', pad: 1, jalaliAlias: false },
+    { token: 'w', field: 'week', pad: 1, jalaliAlias: false },
+    { token: 'Q', field: 'quarter', pad: 1, jalaliAlias: false },
+];
+
+const PERSIAN_MONTH_NAMES = [
+    'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
+    'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
+];
+
+const GREGORIAN_MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const GREGORIAN_SHORT_MONTH_NAMES = [
+    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
+];
+
+// Indexed like Date.getDay(): Sunday first
+const PERSIAN_WEEKDAY_NAMES = ['یکشنبه', 'دوشنبه', 'سه‌شنبه', 'چهارشنبه', 'پنج‌شنبه', 'جمعه', 'شنبه'];
+const PERSIAN_SHORT_WEEKDAY_NAMES = ['ی', 'د', 'س', 'چ', 'پ', 'ج', 'ش'];
+const GREGORIAN_WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const GREGORIAN_SHORT_WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_PATTERNS = ['YYYY-MM-DD', 'YYYY-[W]WW', 'YYYY-[Q]Q', 'YYYY-MM', 'YYYY'];
+
+const compiledFormats = new Map<string, CompiledDateFormat>();
+
+/**
+ * Split a pattern into literal and date field tokens.
+ * Text inside [brackets] is always literal, as in moment.js.
+ */
+export function tokenizeDatePattern(pattern: string): FormatToken[] {
+    const tokens: FormatToken[] = [];
+    const pushLiteral = (text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === 'literal') {
+            last.text += text;
+        } else {
+            tokens.push({ type: 'literal', text });
+        }
+    };
+
+    let i = 0;
+    while (i < pattern.length) {
+        if (pattern[i] === '[') {
+            const closing = pattern.indexOf(']', i + 1);
+            if (closing !== -1) {
+                pushLiteral(pattern.substring(i + 1, closing));
+                i = closing + 1;
+                continue;
+            }
+        }
+
+        const hasJalaliPrefix = pattern[i] === 'j';
+        const start = hasJalaliPrefix ? i + 1 : i;
+        const entry = TOKEN_TABLE.find(candidate =>
+            (!hasJalaliPrefix || candidate.jalaliAlias) && pattern.startsWith(candidate.token, start)
+        );
+        if (entry) {
+            tokens.push({ type: 'field', field: entry.field, pad: entry.pad });
+            i = start + entry.token.length;
+        } else {
+            pushLiteral(pattern[i]);
+            i++;
+        }
+    }
+
+    return tokens;
+}
+
 /**
- * Format a date according to a pattern using moment-jalaali for Persian dates
+ * Compile a pattern into a formatter/parser pair for one calendar.
+ * Results are cached, so it is cheap to call this on every lookup.
+ */
+export function compileDateFormat(pattern: string, usePersian = true): CompiledDateFormat {
+    const cacheKey = `${usePersian ? 'p' : 'g'}:${pattern}`;
+    const cached = compiledFormats.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const tokens = tokenizeDatePattern(pattern);
+    const fields = new Set<DateField>();
+    const groupFields: DateField[] = [];
+    const source = tokens.map(token => {
+        if (token.type === 'literal') {
+            return escapeRegExp(token.text);
+        }
+        groupFields.push(token.field);
+        fields.add(token.field);
+        return `(${fieldRegExp(token.field, usePersian)})`;
+    }).join('');
+    const regex = new RegExp(`^${source}$`);
+
+    const compiled: CompiledDateFormat = {
+        pattern,
+        usePersian,
+        tokens,
+        format: (components) => tokens
+            .map(token => token.type === 'literal' ? token.text : formatField(token.field, token.pad, components, usePersian))
+            .join(''),
+        parse: (text) => {
+            const match = text.match(regex);
+            if (!match) {
+                return null;
+            }
+            const values: Partial<Record<DateField, number>> = {};
+            for (let g = 0; g < groupFields.length; g++) {
+                const field = groupFields[g];
+                const value = parseField(field, match[g + 1], usePersian);
+                if (value === null) {
+                    return null;
+                }
+                if (values[field] !== undefined && values[field] !== value) {
+                    // The same field appears twice (e.g. a year folder and a year in the filename) with different values
+                    return null;
+                }
+                values[field] = value;
+            }
+            return resolveComponents(values, fields, usePersian);
+        },
+    };
+
+    compiledFormats.set(cacheKey, compiled);
+    return compiled;
+}
+
+/**
+ * Format a date according to a pattern in the Jalaali or Gregorian calendar
  * @param pattern The format pattern (e.g., "YYYY/MM/YYYY-MM-DD")
  * @param components Date components
  * @param usePersian Whether to use Persian (Jalaali) calendar
@@ -29,145 +195,211 @@ export function formatDatePath(
     usePersian: boolean = true
 ): string {
     if (!pattern || pattern.trim() === '') {
-        // Default patterns if empty
-        if (components.day) {
-            pattern = 'YYYY-MM-DD';
-        } else if (components.week) {
-            pattern = 'YYYY-[W]WW';
-        } else if (components.quarter) {
-            pattern = 'YYYY-[Q]Q';
-        } else if (components.month && components.month > 1) {
-            // Monthly note - only if month is explicitly set to something other than 1
-            pattern = 'YYYY-MM';
-        } else if (components.month === 1) {
-            // Could be monthly (explicit January) or yearly (month is just placeholder)
-            // We'll default to yearly (YYYY) since that's the simpler case
-            pattern = 'YYYY';
-        } else {
-            pattern = 'YYYY';
+        pattern = defaultPatternFor(components);
+    }
+
+    return compileDateFormat(pattern, usePersian).format(components);
+}
+
+/**
+ * Pick the default pattern for a note kind when the user left the format empty
+ */
+function defaultPatternFor(components: DateFormatComponents): string {
+    if (components.day) {
+        return 'YYYY-MM-DD';
+    } else if (components.week) {
+        return 'YYYY-[W]WW';
+    } else if (components.quarter) {
+        return 'YYYY-[Q]Q';
+    } else if (components.month && components.month > 1) {
+        // Monthly note - only if month is explicitly set to something other than 1
+        return 'YYYY-MM';
+    }
+    // Could be monthly (explicit January) or yearly (month is just placeholder)
+    // We'll default to yearly (YYYY) since that's the simpler case
+    return 'YYYY';
+}
+
+function formatField(field: DateField, pad: number, components: DateFormatComponents, usePersian: boolean): string {
+    const day = components.day ?? 1;
+    switch (field) {
+        case 'year':
+            return String(components.year).padStart(pad, '0');
+        case 'shortYear':
+            return String(components.year % 100).padStart(2, '0');
+        case 'month':
+            return String(components.month).padStart(pad, '0');
+        case 'monthName':
+            return (usePersian ? PERSIAN_MONTH_NAMES : GREGORIAN_MONTH_NAMES)[components.month - 1];
+        case 'shortMonthName':
+            return (usePersian ? PERSIAN_MONTH_NAMES : GREGORIAN_SHORT_MONTH_NAMES)[components.month - 1];
+        case 'day':
+            return String(day).padStart(pad, '0');
+        case 'weekday':
+            return (usePersian ? PERSIAN_WEEKDAY_NAMES : GREGORIAN_WEEKDAY_NAMES)[getWeekday(components.year, components.month, day, usePersian)];
+        case 'shortWeekday':
+            return (usePersian ? PERSIAN_SHORT_WEEKDAY_NAMES : GREGORIAN_SHORT_WEEKDAY_NAMES)[getWeekday(components.year, components.month, day, usePersian)];
+        case 'week':
+            return String(components.week ?? getWeekOfDate(components.year, components.month, day, usePersian)).padStart(pad, '0');
+        case 'quarter':
+            return String(components.quarter ?? Math.ceil(components.month / 3));
+    }
+}
+
+function fieldRegExp(field: DateField, usePersian: boolean): string {
+    switch (field) {
+        case 'year':
+            return '\\d{4}';
+        case 'shortYear':
+            return '\\d{2}';
+        case 'month':
+        case 'day':
+        case 'week':
+            return '\\d{1,2}';
+        case 'quarter':
+            return '[1-4]';
+        default:
+            return namesFor(field, usePersian)
+                .slice()
+                .sort((a, b) => b.length - a.length)
+                .map(escapeRegExp)
+                .join('|');
+    }
+}
+
+function parseField(field: DateField, text: string, usePersian: boolean): number | null {
+    switch (field) {
+        case 'monthName':
+        case 'shortMonthName':
+            return namesFor(field, usePersian).indexOf(text) + 1 || null;
+        case 'weekday':
+        case 'shortWeekday': {
+            const index = namesFor(field, usePersian).indexOf(text);
+            return index === -1 ? null : index;
         }
+        default:
+            return parseInt(text, 10);
+    }
+}
+
+function namesFor(field: DateField, usePersian: boolean): string[] {
+    switch (field) {
+        case 'monthName':
+            return usePersian ? PERSIAN_MONTH_NAMES : GREGORIAN_MONTH_NAMES;
+        case 'shortMonthName':
+            return usePersian ? PERSIAN_MONTH_NAMES : GREGORIAN_SHORT_MONTH_NAMES;
+        case 'weekday':
+            return usePersian ? PERSIAN_WEEKDAY_NAMES : GREGORIAN_WEEKDAY_NAMES;
+        case 'shortWeekday':
+            return usePersian ? PERSIAN_SHORT_WEEKDAY_NAMES : GREGORIAN_SHORT_WEEKDAY_NAMES;
+        default:
+            return [];
     }
+}
 
-    // Create moment object based on calendar type
-    let momentObj: moment.Moment;
-    
-    if (usePersian) {
-        moment.loadPersian({ usePersianDigits: false, dialect: 'persian-modern' });
-        
-        if (components.day) {
-            momentObj = moment(`${components.year}/${components.month}/${components.day}`, 'jYYYY/jM/jD');
-        } else if (components.week) {
-            // For week-based formatting
-            momentObj = moment().jYear(components.year).jWeek(components.week);
-        } else if (components.month) {
-            momentObj = moment(`${components.year}/${components.month}/1`, 'jYYYY/jM/jD');
-        } else {
-            momentObj = moment(`${components.year}/1/1`, 'jYYYY/jM/jD');
+/**
+ * Turn the parsed field values into components, checking that fields which
+ * can be derived from each other (weekday, week, quarter of a day) agree.
+ * The note kind is decided by the most specific field the pattern contains.
+ */
+function resolveComponents(
+    values: Partial<Record<DateField, number>>,
+    fields: Set<DateField>,
+    usePersian: boolean
+): DateFormatComponents | null {
+    let year = values.year;
+    if (values.shortYear !== undefined) {
+        const expanded = expandShortYear(values.shortYear, usePersian);
+        if (year === undefined) {
+            year = expanded;
+        } else if (year % 100 !== values.shortYear) {
+            return null;
         }
-    } else {
-        // Gregorian calendar
-        if (components.day) {
-            momentObj = moment(`${components.year}/${components.month}/${components.day}`, 'YYYY/M/D');
-        } else if (components.week) {
-            momentObj = moment().year(components.year).week(components.week);
-        } else if (components.month) {
-            momentObj = moment(`${components.year}/${components.month}/1`, 'YYYY/M/D');
-        } else {
-            momentObj = moment(`${components.year}/1/1`, 'YYYY/M/D');
+    }
+    if (year === undefined) {
+        return null;
+    }
+
+    const monthCandidates = [values.month, values.monthName, values.shortMonthName].filter((m): m is number => m !== undefined);
+    if (monthCandidates.some(m => m !== monthCandidates[0])) {
+        return null;
+    }
+    const month = monthCandidates[0];
+    if (month !== undefined && (month < 1 || month > 12)) {
+        return null;
+    }
+    if (month !== undefined && values.quarter !== undefined && Math.ceil(month / 3) !== values.quarter) {
+        return null;
+    }
+    if (values.week !== undefined && (values.week < 1 || values.week > 53)) {
+        return null;
+    }
+
+    if (fields.has('day')) {
+        const day = values.day;
+        if (month === undefined || day === undefined || day < 1 || day > getMonthLength(year, month, usePersian)) {
+            return null;
         }
+        const weekdays = [values.weekday, values.shortWeekday].filter((w): w is number => w !== undefined);
+        if (weekdays.some(w => w !== getWeekday(year as number, month, day, usePersian))) {
+            return null;
+        }
+        if (values.week !== undefined && values.week !== getWeekOfDate(year, month, day, usePersian)) {
+            return null;
+        }
+        return { year, month, day };
     }
 
-    // Convert pattern to moment-jalaali format
-    let momentPattern = pattern;
-    
-    // Handle Persian calendar specific tokens
-    if (usePersian) {
-        // Replace in a specific order to avoid conflicts
-        // First, replace longer patterns (4-letter, then 2-letter)
-        momentPattern = momentPattern.replace(/MMMM/g, 'jMMMM');
-        momentPattern = momentPattern.replace(/YYYY/g, 'jYYYY');
-        momentPattern = momentPattern.replace(/DD/g, 'jDD');
-        momentPattern = momentPattern.replace(/MM/g, 'jMM');
-        momentPattern = momentPattern.replace(/WW/g, 'ww');
-        
-        // Now replace single M and D using a manual approach
-        // that avoids already-replaced tokens
-        momentPattern = replaceSingleTokens(momentPattern);
-        
-        // Handle quarter token Q (moment.js doesn't have quarter support)
-        // We need to replace standalone Q but not Q within [Q]
-        if (components.quarter) {
-            momentPattern = replaceQuarterToken(momentPattern, components.quarter);
+    if (fields.has('week')) {
+        if (values.week === undefined) {
+            return null;
         }
-        
-        // Note: [W] and [Q] are moment.js escaping - they output literal W and Q
-        // These are left as-is and moment will handle them
-    } else {
-        // For Gregorian, handle week number
-        momentPattern = momentPattern.replace(/WW/g, 'ww');
-        
-        // Handle quarter for Gregorian too
-        if (components.quarter) {
-            momentPattern = replaceQuarterToken(momentPattern, components.quarter);
+        return { year, month: month ?? 1, week: values.week };
+    }
+
+    if (fields.has('quarter')) {
+        if (values.quarter === undefined) {
+            return null;
         }
+        return { year, month: month ?? 1, quarter: values.quarter };
     }
 
-    // Format the date
-    const formatted = momentObj.format(momentPattern);
-    
-    return formatted;
+    return { year, month: month ?? 1 };
 }
 
-/**
- * Helper function to replace single M and D tokens with jM and jD
- * Avoids replacing tokens that are already part of jMM, jDD, etc.
- */
-function replaceSingleTokens(pattern: string): string {
-    const chars = pattern.split('');
-    const result: string[] = [];
-    
-    for (let i = 0; i < chars.length; i++) {
-        const char = chars[i];
-        const prevChar = i > 0 ? chars[i - 1] : '';
-        const nextChar = i < chars.length - 1 ? chars[i + 1] : '';
-        
-        if (char === 'M' && prevChar !== 'M' && nextChar !== 'M' && prevChar !== 'j') {
-            result.push('jM');
-        } else if (char === 'D' && prevChar !== 'D' && nextChar !== 'D' && prevChar !== 'j') {
-            result.push('jD');
-        } else {
-            result.push(char);
-        }
+function expandShortYear(shortYear: number, usePersian: boolean): number {
+    // Two digit years resolve to the century window around 1400 / 2000
+    const windowStart = usePersian ? 1350 : 1950;
+    return windowStart + ((shortYear - windowStart % 100 + 100) % 100);
+}
+
+function getMonthLength(year: number, month: number, usePersian: boolean): number {
+    return usePersian ? jalaaliMonthLength(year, month) : new Date(year, month, 0).getDate();
+}
+
+function toDate(year: number, month: number, day: number, usePersian: boolean): Date {
+    if (usePersian) {
+        const { gy, gm, gd } = toGregorian(year, month, day);
+        return new Date(gy, gm - 1, gd);
     }
-    
-    return result.join('');
+    return new Date(year, month - 1, day);
 }
 
-/**
- * Helper function to replace Q tokens with quarter number
- * Avoids replacing Q within [Q] escape sequences
- */
-function replaceQuarterToken(pattern: string, quarter: number): string {
-    const result: string[] = [];
-    let insideBrackets = false;
-    
-    for (let i = 0; i < pattern.length; i++) {
-        const char = pattern[i];
-        
-        if (char === '[') {
-            insideBrackets = true;
-            result.push(char);
-        } else if (char === ']') {
-            insideBrackets = false;
-            result.push(char);
-        } else if (char === 'Q' && !insideBrackets) {
-            result.push(quarter.toString());
-        } else {
-            result.push(char);
-        }
+// Sunday is 0, as in Date.getDay
+function getWeekday(year: number, month: number, day: number, usePersian: boolean): number {
+    return toDate(year, month, day, usePersian).getDay();
+}
+
+function getWeekOfDate(year: number, month: number, day: number, usePersian: boolean): number {
+    if (usePersian) {
+        moment.loadPersian({ usePersianDigits: false, dialect: 'persian-modern' });
+        return moment(`${year}/${month}/${day}`, 'jYYYY/jM/jD').jWeek();
     }
-    
-    return result.join('');
+    return moment(toDate(year, month, day, false)).week();
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
@@ -186,10 +418,10 @@ export function generateNotePath(
 ): string {
     // Clean up base path
     const cleanBasePath = basePath.trim().replace(/^\/*|\/*$/g, '');
-    
+
     // Format the date path
     const datePath = formatDatePath(datePattern, components, usePersian);
-    
+
     // Combine base path and date path
     let fullPath: string;
     if (cleanBasePath === '' || cleanBasePath === '/') {
@@ -197,12 +429,12 @@ export function generateNotePath(
     } else {
         fullPath = `${cleanBasePath}/${datePath}`;
     }
-    
+
     // Add .md extension if not present
     if (!fullPath.endsWith('.md')) {
         fullPath += '.md';
     }
-    
+
     return fullPath;
 }
 
@@ -238,18 +470,19 @@ export function fileMatchesDate(
 ): boolean {
     // Generate the expected path
     const expectedPath = generateNotePath(basePath, pattern, components, usePersian);
-    
+
     // Simple comparison - check if paths match
     return filePath === expectedPath;
 }
 
 /**
- * Extract date components from a file path based on a pattern
- * Note: This is a simplified extraction that looks for common date patterns.
- * It works best with standard formats and may not perfectly handle all custom patterns.
+ * Extract date components from a file path based on a pattern.
+ * This is the exact inverse of generateNotePath: the pattern is compiled with
+ * the same tokenizer, so any path the plugin generates is parsed back to the
+ * components it was generated from.
  * @param filePath The file path to parse
  * @param basePath Base folder path
- * @param pattern Date format pattern (currently not fully utilized in parsing)
+ * @param pattern Date format pattern; when empty the default patterns are tried in turn
  * @param usePersian Whether using Persian calendar
  * @returns Date components or null if path doesn't match pattern
  */
@@ -262,7 +495,7 @@ export function extractDateFromPath(
     // Remove base path and .md extension
     const cleanBasePath = basePath.trim().replace(/^\/*|\/*$/g, '');
     let pathToCheck = filePath;
-    
+
     if (cleanBasePath !== '' && cleanBasePath !== '/') {
         const prefix = cleanBasePath + '/';
         if (!pathToCheck.startsWith(prefix)) {
@@ -270,37 +503,19 @@ export function extractDateFromPath(
         }
         pathToCheck = pathToCheck.substring(prefix.length);
     }
-    
+
     // Remove .md extension
     if (pathToCheck.endsWith('.md')) {
         pathToCheck = pathToCheck.substring(0, pathToCheck.length - 3);
     }
-    
-    // Try to match week pattern first (more specific)
-    const weekMatch = pathToCheck.match(/(\d{4})[\/\-]?W(\d{1,2})/);
-    if (weekMatch) {
-        const year = parseInt(weekMatch[1]);
-        const week = parseInt(weekMatch[2]);
-        return { year, month: 1, week };
-    }
-    
-    // Try to match quarter pattern (more specific)
-    const quarterMatch = pathToCheck.match(/(\d{4})[\/\-]?Q(\d)/);
-    if (quarterMatch) {
-        const year = parseInt(quarterMatch[1]);
-        const quarter = parseInt(quarterMatch[2]);
-        return { year, month: 1, quarter };
-    }
-    
-    // Try to match year-month-day pattern (most common for daily notes)
-    const dailyMatch = pathToCheck.match(/(\d{4})[\/\-]?(\d{1,2})?[\/\-]?(\d{1,2})?/);
-    if (dailyMatch) {
-        const year = parseInt(dailyMatch[1]);
-        const month = dailyMatch[2] ? parseInt(dailyMatch[2]) : 1;
-        const day = dailyMatch[3] ? parseInt(dailyMatch[3]) : undefined;
-        
-        return { year, month, day };
+
+    const patterns = pattern && pattern.trim() !== '' ? [pattern] : DEFAULT_PATTERNS;
+    for (const candidate of patterns) {
+        const components = compileDateFormat(candidate, usePersian).parse(pathToCheck);
+        if (components) {
+            return components;
+        }
     }
-    
+
     return null;
 }
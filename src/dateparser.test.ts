@@ -0,0 +1,168 @@
+import { DEFAULT_SETTINGS } from './settings';
+import { describeDateTarget, findDateTrigger, findNamedDays, formatDateTarget, getWeekdayIndex, normalizeDatePhrase, parseDatePhrase } from './dateparser';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+// Thursday 1403-05-11, 2024-08-01
+const today = { jy: 1403, jm: 5, jd: 11 };
+const parse = (text: string) => parseDatePhrase(text, today, DEFAULT_SETTINGS);
+const daily = (jy: number, jm: number, jd: number) => ({ kind: 'daily', date: { jy, jm, jd } });
+
+describe('normalizeDatePhrase', () => {
+    test('unifies digits, letters, spaces and weekday names', () => {
+        expect(normalizeDatePhrase(' ۱۵  مهر ')).toBe('15 مهر');
+        expect(normalizeDatePhrase('سه‌شنبه بعد')).toBe('سهشنبه بعد');
+        expect(normalizeDatePhrase('دو شنبه ديگر')).toBe('دوشنبه دیگر');
+        expect(normalizeDatePhrase('Next  Friday')).toBe('next friday');
+    });
+});
+
+describe('getWeekdayIndex', () => {
+    test('counts from Saturday', () => {
+        expect(getWeekdayIndex(today)).toBe(5);
+        expect(getWeekdayIndex({ jy: 1403, jm: 5, jd: 6 })).toBe(0);
+    });
+});
+
+describe('parseDatePhrase', () => {
+    test('reads the relative day keywords', () => {
+        expect(parse('امروز')).toEqual(daily(1403, 5, 11));
+        expect(parse('پس‌فردا')).toEqual(daily(1403, 5, 13));
+        expect(parse('پریروز')).toEqual(daily(1403, 5, 9));
+    });
+
+    test('reads weekdays as their next occurrence, today included', () => {
+        expect(parse('پنج‌شنبه')).toEqual(daily(1403, 5, 11));
+        expect(parse('سه شنبه')).toEqual(daily(1403, 5, 16));
+        expect(parse('دو شنبه دیگر')).toEqual(daily(1403, 5, 22));
+        expect(parse('جمعه قبل')).toEqual(daily(1403, 5, 5));
+    });
+
+    test('reads periods around today as their notes', () => {
+        expect(parse('هفته بعد')).toEqual({ kind: 'weekly', date: { jy: 1403, jm: 5, jd: 18 } });
+        expect(parse('این ماه')).toEqual({ kind: 'monthly', date: today });
+        expect(parse('فصل قبل')).toEqual({ kind: 'quarterly', date: { jy: 1403, jm: 2, jd: 11 } });
+        expect(parse('امسال')).toEqual({ kind: 'yearly', date: today });
+        expect(parse('این ماه بعد')).toBeNull();
+    });
+
+    test('reads amounts with Persian or Latin digits and number words', () => {
+        expect(parse('۳ روز بعد')).toEqual(daily(1403, 5, 14));
+        expect(parse('3 روز دیگر')).toEqual(daily(1403, 5, 14));
+        expect(parse('۲ هفته قبل')).toEqual({ kind: 'weekly', date: { jy: 1403, jm: 4, jd: 28 } });
+        expect(parse('دو ماه بعد')).toEqual({ kind: 'monthly', date: { jy: 1403, jm: 7, jd: 11 } });
+        expect(parse('۳ روز')).toBeNull();
+    });
+
+    test('reads the first and last days of periods', () => {
+        expect(parse('اول ماه بعد')).toEqual(daily(1403, 6, 1));
+        expect(parse('آخر فصل')).toEqual(daily(1403, 6, 31));
+        expect(parse('اول هفته')).toEqual(daily(1403, 5, 6));
+        expect(parse('آخر سال')).toEqual(daily(1403, 12, 30));
+        expect(parse('آخر اسفند ۱۴۰۲')).toEqual(daily(1402, 12, 29));
+    });
+
+    test('reads days and months by name', () => {
+        expect(parse('۱۵ مهر')).toEqual(daily(1403, 7, 15));
+        expect(parse('۱۵ مهر ۱۴۰۲')).toEqual(daily(1402, 7, 15));
+        expect(parse('مهر ۱۴۰۲')).toEqual({ kind: 'monthly', date: { jy: 1402, jm: 7, jd: 1 } });
+        expect(parse('1402/7/15')).toEqual(daily(1402, 7, 15));
+        expect(parse('۳۱ مهر')).toBeNull();
+    });
+
+    test('reads named days as their next occurrence', () => {
+        expect(parse('نوروز')).toEqual(daily(1404, 1, 1));
+        expect(parse('شب یلدا')).toEqual(daily(1403, 9, 30));
+        expect(parse('عاشورا')).toEqual(daily(1404, 4, 15));
+    });
+
+    test('reads Hijri named days after the years of the Iranian month table', () => {
+        // 1405-04-01 is 1448-01-06, the table ends with 1447
+        const later = (text: string) => parseDatePhrase(text, { jy: 1405, jm: 4, jd: 1 }, DEFAULT_SETTINGS);
+        expect(later('عاشورا')).toEqual(daily(1405, 4, 5));
+        expect(later('اربعین')).toEqual(daily(1405, 5, 13));
+        expect(later('عید فطر')).toEqual(daily(1405, 12, 19));
+        expect(later('عید قربان')).toEqual(daily(1406, 2, 27));
+        expect(later('غدیر')).toEqual(daily(1406, 3, 4));
+    });
+
+    test('rejects amounts and years outside the supported years instead of throwing', () => {
+        expect(parse('2000 سال بعد')).toBeNull();
+        expect(parse('9999999 روز بعد')).toBeNull();
+        expect(parse('مهر 9999')).toBeNull();
+        expect(parse('آخر مهر 9999')).toBeNull();
+        expect(parse('۱۵ مهر ۹۹۹۹')).toBeNull();
+        expect(parse('100 سال بعد')).toEqual({ kind: 'yearly', date: { jy: 1503, jm: 5, jd: 11 } });
+    });
+
+    test('reads English phrases like their Persian counterparts', () => {
+        expect(parse('Tomorrow')).toEqual(daily(1403, 5, 12));
+        expect(parse('day after tomorrow')).toEqual(daily(1403, 5, 13));
+        expect(parse('next friday')).toEqual(parse('جمعه بعد'));
+        expect(parse('last Mon')).toEqual(parse('دوشنبه قبل'));
+        expect(parse('this week')).toEqual({ kind: 'weekly', date: today });
+        expect(parse('next month')).toEqual({ kind: 'monthly', date: { jy: 1403, jm: 6, jd: 11 } });
+        expect(parse('in 3 days')).toEqual(daily(1403, 5, 14));
+        expect(parse('two weeks ago')).toEqual({ kind: 'weekly', date: { jy: 1403, jm: 4, jd: 28 } });
+        expect(parse('end of next month')).toEqual(daily(1403, 6, 31));
+    });
+
+    test('reads Gregorian dates as Jalaali days', () => {
+        expect(parse('2024-08-01')).toEqual(daily(1403, 5, 11));
+        expect(parse('Aug 1')).toEqual(daily(1403, 5, 11));
+        expect(parse('August 1st, 2025')).toEqual(daily(1404, 5, 10));
+        expect(parse('1 Sept 2024')).toEqual(daily(1403, 6, 11));
+        expect(parse('Feb 30')).toBeNull();
+        expect(parse('9999-01-01')).toBeNull();
+        expect(parse('Aug 1, 9999')).toBeNull();
+    });
+
+    test('rejects other text', () => {
+        expect(parse('جلسه')).toBeNull();
+        expect(parse('شنبه فردا')).toBeNull();
+        expect(parse('')).toBeNull();
+    });
+});
+
+describe('findNamedDays', () => {
+    test('lists named days starting with the query', () => {
+        expect(findNamedDays('عید', today, DEFAULT_SETTINGS).map(day => day.name)).toEqual(['عید نوروز', 'عید فطر', 'عید قربان', 'عید غدیر']);
+    });
+});
+
+describe('describeDateTarget', () => {
+    test('describes each kind of note in Persian', () => {
+        const describe = (kind: 'daily' | 'monthly' | 'quarterly' | 'yearly') => describeDateTarget({ kind, date: today }, DEFAULT_SETTINGS);
+        expect(describe('daily')).toBe('پنج‌شنبه ۱۱ مرداد ۱۴۰۳');
+        expect(describe('monthly')).toBe('مرداد ۱۴۰۳');
+        expect(describe('quarterly')).toBe('تابستان ۱۴۰۳');
+        expect(describe('yearly')).toBe('سال ۱۴۰۳');
+    });
+});
+
+describe('findDateTrigger', () => {
+    test('finds the last trigger before the cursor', () => {
+        expect(findDateTrigger('جلسه @فردا', 10, '@', false)).toBe(5);
+        expect(findDateTrigger('جلسه //فردا', 11, '//', false)).toBe(5);
+        expect(findDateTrigger('جلسه فردا', 9, '@', false)).toBe(-1);
+    });
+
+    test('skips triggers inside words when a word boundary is required', () => {
+        expect(findDateTrigger('ali@example.com', 15, '@', false)).toBe(3);
+        expect(findDateTrigger('ali@example.com', 15, '@', true)).toBe(-1);
+        expect(findDateTrigger('@@tomorrow', 10, '@@', true)).toBe(0);
+    });
+});
+
+describe('formatDateTarget', () => {
+    const tomorrow = { kind: 'daily' as const, date: { jy: 1403, jm: 5, jd: 12 } };
+    const format = (suggesterOutputStyle: string) => formatDateTarget(tomorrow, 'فردا', { ...DEFAULT_SETTINGS, dailyNotesFolderPath: 'Daily Notes', suggesterOutputStyle });
+
+    test('writes the target in the output style of the settings', () => {
+        expect(format('wikilink')).toBe('[[Daily Notes/1403-05-12|فردا]]');
+        expect(format('markdown')).toBe('[فردا](Daily%20Notes/1403-05-12.md)');
+        expect(format('text')).toBe('جمعه ۱۲ مرداد ۱۴۰۳');
+        expect(format('dual')).toBe('1403-05-12 (2024-08-02)');
+    });
+});
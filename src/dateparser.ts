@@ -0,0 +1,411 @@
+import * as jalaali from 'jalaali-js';
+import type { JalaaliDate, PluginSettings } from './settings';
+import type { PeriodicNoteKind } from './noteindex';
+import { toLatinDigits } from './customevents';
+import { getHijriDate, getJalaaliFromHijri } from './hijri';
+import { formatNoteLink, getJalaaliWeek, getPeriodicNotePath } from './periodicnotes';
+import { PlaceholderOffsetUnit, formatPlaceholderDate, shiftJalaaliDate, toPersianDigits } from './placeholdersyntax';
+
+/**
+ * The periodic note a date phrase points to, given by one of its days
+ */
+export interface DateTarget {
+    kind: PeriodicNoteKind;
+    date: JalaaliDate;
+}
+
+type HijriSettings = Pick<PluginSettings, 'hijriCalendarType' | 'hijriDateAdjustment'>;
+
+// All words are written as normalizeDatePhrase leaves them: spaces instead of ZWNJ and
+// weekday names in one word
+const RELATIVE_DAYS: { [word: string]: number } = {
+    'امروز': 0, 'فردا': 1, 'دیروز': -1, 'پریروز': -2, 'پس فردا': 2,
+};
+
+const DIRECTIONS: { [word: string]: number } = {
+    'بعد': 1, 'بعدی': 1, 'آینده': 1, 'دیگر': 1, 'دیگه': 1,
+    'قبل': -1, 'قبلی': -1, 'گذشته': -1, 'پیش': -1,
+};
+
+const UNITS: { [word: string]: PlaceholderOffsetUnit } = {
+    'روز': 'day', 'هفته': 'week', 'ماه': 'month', 'فصل': 'quarter', 'سال': 'year',
+};
+
+const UNIT_KINDS: { [unit in PlaceholderOffsetUnit]: PeriodicNoteKind } = {
+    day: 'daily', week: 'weekly', month: 'monthly', quarter: 'quarterly', year: 'yearly',
+};
+
+// Rough length of each unit in years, to keep shifts inside the years jalaali-js converts
+const UNIT_YEARS: { [unit in PlaceholderOffsetUnit]: number } = {
+    day: 1 / 365, week: 7 / 365, month: 1 / 12, quarter: 1 / 4, year: 1,
+};
+
+const NUMBER_WORDS: { [word: string]: number } = {
+    'یک': 1, 'یه': 1, 'دو': 2, 'سه': 3, 'چهار': 4, 'پنج': 5, 'شش': 6, 'شیش': 6, 'هفت': 7, 'هشت': 8,
+    'نه': 9, 'ده': 10, 'یازده': 11, 'دوازده': 12, 'سیزده': 13, 'چهارده': 14, 'پانزده': 15, 'پونزده': 15,
+    'بیست': 20, 'سی': 30,
+};
+
+// Saturday first, as in the calendar
+const WEEKDAYS = ['شنبه', 'یکشنبه', 'دوشنبه', 'سهشنبه', 'چهارشنبه', 'پنجشنبه', 'جمعه'];
+
+const MONTHS: { [name: string]: number } = {
+    'فروردین': 1, 'اردیبهشت': 2, 'خرداد': 3, 'تیر': 4, 'مرداد': 5, 'امرداد': 5, 'شهریور': 6,
+    'مهر': 7, 'آبان': 8, 'آذر': 9, 'دی': 10, 'بهمن': 11, 'اسفند': 12,
+};
+
+const START_WORDS = ['اول', 'ابتدای', 'ابتدا', 'شروع'];
+const END_WORDS = ['آخر', 'انتهای', 'انتها', 'پایان'];
+
+// English words in their Persian form, so both languages follow the same rules
+const ENGLISH_WORDS: { [word: string]: string } = {
+    'today': 'امروز', 'tomorrow': 'فردا', 'yesterday': 'دیروز',
+    'saturday': 'شنبه', 'sat': 'شنبه', 'sunday': 'یکشنبه', 'sun': 'یکشنبه',
+    'monday': 'دوشنبه', 'mon': 'دوشنبه', 'tuesday': 'سهشنبه', 'tue': 'سهشنبه', 'tues': 'سهشنبه',
+    'wednesday': 'چهارشنبه', 'wed': 'چهارشنبه', 'thursday': 'پنجشنبه', 'thu': 'پنجشنبه', 'thurs': 'پنجشنبه',
+    'friday': 'جمعه', 'fri': 'جمعه',
+    'day': 'روز', 'days': 'روز', 'week': 'هفته', 'weeks': 'هفته', 'month': 'ماه', 'months': 'ماه',
+    'quarter': 'فصل', 'quarters': 'فصل', 'year': 'سال', 'years': 'سال',
+    'a': '1', 'an': '1', 'one': '1', 'two': '2', 'three': '3', 'four': '4', 'five': '5',
+    'six': '6', 'seven': '7', 'eight': '8', 'nine': '9', 'ten': '10',
+};
+
+const ENGLISH_DIRECTIONS: { [word: string]: string } = {
+    'next': 'بعد', 'coming': 'بعد', 'last': 'قبل', 'previous': 'قبل', 'past': 'قبل',
+};
+
+const GREGORIAN_MONTHS: { [name: string]: number } = {
+    'jan': 1, 'january': 1, 'feb': 2, 'february': 2, 'mar': 3, 'march': 3, 'apr': 4, 'april': 4,
+    'may': 5, 'jun': 6, 'june': 6, 'jul': 7, 'july': 7, 'aug': 8, 'august': 8,
+    'sep': 9, 'sept': 9, 'september': 9, 'oct': 10, 'october': 10, 'nov': 11, 'november': 11,
+    'dec': 12, 'december': 12,
+};
+
+/**
+ * Days known by name. They resolve to their next occurrence, today included.
+ */
+export const NAMED_DAYS: { names: string[], calendar: 'jalali' | 'hijri', month: number, day: number }[] = [
+    { names: ['نوروز', 'عید نوروز'], calendar: 'jalali', month: 1, day: 1 },
+    { names: ['سیزده بدر', 'روز طبیعت'], calendar: 'jalali', month: 1, day: 13 },
+    { names: ['یلدا', 'شب یلدا'], calendar: 'jalali', month: 9, day: 30 },
+    { names: ['تاسوعا'], calendar: 'hijri', month: 1, day: 9 },
+    { names: ['عاشورا'], calendar: 'hijri', month: 1, day: 10 },
+    { names: ['اربعین'], calendar: 'hijri', month: 2, day: 20 },
+    { names: ['مبعث'], calendar: 'hijri', month: 7, day: 27 },
+    { names: ['نیمه شعبان'], calendar: 'hijri', month: 8, day: 15 },
+    { names: ['عید فطر'], calendar: 'hijri', month: 10, day: 1 },
+    { names: ['عید قربان'], calendar: 'hijri', month: 12, day: 10 },
+    { names: ['عید غدیر', 'غدیر'], calendar: 'hijri', month: 12, day: 18 },
+];
+
+/**
+ * Latin digits, Persian letters instead of Arabic ones, spaces instead of ZWNJ, weekday
+ * names in one word and lowercase English, so `سه‌شنبه`, `سه شنبه` and `سهشنبه` read the same
+ */
+export function normalizeDatePhrase(text: string): string {
+    return toLatinDigits(text)
+        .toLowerCase()
+        .replace(/[يى]/g, 'ی')
+        .replace(/ك/g, 'ک')
+        .replace(/\u200c/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/(^| )(یک|دو|سه|چهار|پنج) ?شنبه/g, '$1$2شنبه');
+}
+
+function compareDates(a: JalaaliDate, b: JalaaliDate): number {
+    return (a.jy - b.jy) || (a.jm - b.jm) || (a.jd - b.jd);
+}
+
+/**
+ * Day of the week of a Jalaali day, Saturday being 0
+ */
+export function getWeekdayIndex(date: JalaaliDate): number {
+    const { gy, gm, gd } = jalaali.toGregorian(date.jy, date.jm, date.jd);
+    return (new Date(Date.UTC(gy, gm - 1, gd)).getUTCDay() + 1) % 7;
+}
+
+function readNumber(word: string): number | null {
+    if (/^\d+$/.test(word)) {
+        return parseInt(word);
+    }
+    return NUMBER_WORDS[word] ?? null;
+}
+
+function readDirection(word: string | undefined): number | null {
+    return word === undefined ? 0 : DIRECTIONS[word] ?? null;
+}
+
+/**
+ * A date shifted by an amount of a unit, or null when the result would fall outside the
+ * years jalaali-js converts, which it rejects by throwing
+ */
+function shiftWithinRange(date: JalaaliDate, amount: number, unit: PlaceholderOffsetUnit): JalaaliDate | null {
+    const years = amount * UNIT_YEARS[unit];
+    if (!jalaali.isValidJalaaliDate(date.jy + Math.floor(years) - 1, 1, 1) || !jalaali.isValidJalaaliDate(date.jy + Math.ceil(years) + 1, 1, 1)) {
+        return null;
+    }
+    return shiftJalaaliDate(date, [{ amount, unit }]);
+}
+
+// First or last day of the week, month, quarter or year containing a day
+function getPeriodBoundary(date: JalaaliDate, unit: PlaceholderOffsetUnit, boundary: 'start' | 'end'): JalaaliDate {
+    switch (unit) {
+        case 'day':
+            return date;
+        case 'week': {
+            const start = shiftJalaaliDate(date, [{ amount: -getWeekdayIndex(date), unit: 'day' }]);
+            return boundary === 'start' ? start : shiftJalaaliDate(start, [{ amount: 6, unit: 'day' }]);
+        }
+        case 'month':
+            return { jy: date.jy, jm: date.jm, jd: boundary === 'start' ? 1 : jalaali.jalaaliMonthLength(date.jy, date.jm) };
+        case 'quarter': {
+            const jm = boundary === 'start' ? Math.ceil(date.jm / 3) * 3 - 2 : Math.ceil(date.jm / 3) * 3;
+            return { jy: date.jy, jm, jd: boundary === 'start' ? 1 : jalaali.jalaaliMonthLength(date.jy, jm) };
+        }
+        case 'year':
+            return boundary === 'start' ? { jy: date.jy, jm: 1, jd: 1 } : { jy: date.jy, jm: 12, jd: jalaali.jalaaliMonthLength(date.jy, 12) };
+    }
+}
+
+function getNamedDay(day: typeof NAMED_DAYS[number], today: JalaaliDate, settings: HijriSettings): JalaaliDate | null {
+    if (day.calendar === 'jalali') {
+        const thisYear = { jy: today.jy, jm: day.month, jd: day.day };
+        return compareDates(thisYear, today) >= 0 ? thisYear : { jy: today.jy + 1, jm: day.month, jd: day.day };
+    }
+    const { hy } = getHijriDate(today, settings.hijriCalendarType, settings.hijriDateAdjustment);
+    for (const year of [hy, hy + 1]) {
+        const date = getJalaaliFromHijri({ hy: year, hm: day.month, hd: day.day }, settings.hijriCalendarType, settings.hijriDateAdjustment);
+        if (date && compareDates(date, today) >= 0) {
+            return date;
+        }
+    }
+    return null;
+}
+
+/**
+ * Names of the named days starting with a normalized query, with their dates
+ */
+export function findNamedDays(query: string, today: JalaaliDate, settings: HijriSettings): { name: string, target: DateTarget }[] {
+    const results: { name: string, target: DateTarget }[] = [];
+    NAMED_DAYS.forEach(day => {
+        const name = day.names.find(name => name.startsWith(query));
+        const date = name !== undefined ? getNamedDay(day, today, settings) : null;
+        if (name !== undefined && date) {
+            results.push({ name, target: { kind: 'daily', date } });
+        }
+    });
+    return results;
+}
+
+/**
+ * The Persian phrase an English one means, e.g. `next friday` as `جمعه بعد` and `in 3 days`
+ * as `3 روز بعد`, or the phrase unchanged when it is not English
+ */
+function translateEnglishPhrase(phrase: string): string {
+    if (phrase === 'day after tomorrow') {
+        return 'پس فردا';
+    }
+    if (phrase === 'day before yesterday') {
+        return 'پریروز';
+    }
+    const words = phrase.split(' ');
+    const translate = (word: string) => ENGLISH_WORDS[word] ?? word;
+    let match: RegExpMatchArray | null;
+    if ((match = phrase.match(/^(start|beginning|end) of (?:(this|next|last|previous) )?(\S+)$/))) {
+        const direction = match[2] && match[2] !== 'this' ? ` ${ENGLISH_DIRECTIONS[match[2]]}` : '';
+        return `${match[1] === 'end' ? 'آخر' : 'اول'} ${translate(match[3])}${direction}`;
+    }
+    if ((match = phrase.match(/^(\S+) (\S+) (ago|later|from now)$/))) {
+        return `${translate(match[1])} ${translate(match[2])} ${match[3] === 'ago' ? 'قبل' : 'بعد'}`;
+    }
+    if ((match = phrase.match(/^in (\S+) (\S+)$/))) {
+        return `${translate(match[1])} ${translate(match[2])} بعد`;
+    }
+    if (words.length === 2 && words[0] === 'this') {
+        const word = translate(words[1]);
+        return WEEKDAYS.includes(word) ? word : `این ${word}`;
+    }
+    if (words.length === 2 && ENGLISH_DIRECTIONS[words[0]]) {
+        return `${translate(words[1])} ${ENGLISH_DIRECTIONS[words[0]]}`;
+    }
+    return words.length === 1 ? translate(phrase) : phrase;
+}
+
+// A Gregorian date as `2024-08-01`, `Aug 1`, `Aug 1, 2024` or `1 August 2024`, this year
+// unless a year is given
+function parseGregorianDate(phrase: string, today: JalaaliDate): JalaaliDate | null {
+    let year: number, month: number, day: number;
+    let match: RegExpMatchArray | null;
+    if ((match = phrase.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/)) && parseInt(match[1]) > 1500) {
+        [year, month, day] = match.slice(1).map(Number);
+    } else if ((match = phrase.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/)) && GREGORIAN_MONTHS[match[1]]) {
+        [month, day] = [GREGORIAN_MONTHS[match[1]], parseInt(match[2])];
+        year = match[3] ? parseInt(match[3]) : jalaali.toGregorian(today.jy, today.jm, today.jd).gy;
+    } else if ((match = phrase.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)\.?(?:,? (\d{4}))?$/)) && GREGORIAN_MONTHS[match[2]]) {
+        [month, day] = [GREGORIAN_MONTHS[match[2]], parseInt(match[1])];
+        year = match[3] ? parseInt(match[3]) : jalaali.toGregorian(today.jy, today.jm, today.jd).gy;
+    } else {
+        return null;
+    }
+    // A Gregorian year overlaps two Jalaali years, both of which jalaali-js has to convert
+    if (!jalaali.isValidJalaaliDate(year - 622, 1, 1) || !jalaali.isValidJalaaliDate(year - 621, 1, 1)) {
+        return null;
+    }
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? jalaali.toJalaali(year, month, day) : null;
+}
+
+/**
+ * Read a Persian date phrase relative to today, such as `فردا`, `۳ روز بعد`, `دو هفته قبل`,
+ * `شنبه بعد`, `ماه قبل`, `اول ماه بعد`, `آخر فصل`, `۱۵ مهر`, `۱۵ مهر ۱۴۰۲`, `مهر ۱۴۰۲`,
+ * `1402-07-15` or `نوروز`, and the same phrases in English, e.g. `tomorrow`, `next friday`
+ * or `in 3 days`, or Gregorian dates such as `2024-08-01` and `Aug 1`. Phrases about a week,
+ * month, quarter or year point to its note, the others to a daily note. Returns null when
+ * the phrase is not understood.
+ */
+export function parseDatePhrase(text: string, today: JalaaliDate, settings: HijriSettings): DateTarget | null {
+    const daily = (date: JalaaliDate | null): DateTarget | null =>
+        date && jalaali.isValidJalaaliDate(date.jy, date.jm, date.jd) ? { kind: 'daily', date } : null;
+    const gregorian = parseGregorianDate(normalizeDatePhrase(text), today);
+    if (gregorian) {
+        return daily(gregorian);
+    }
+    const phrase = translateEnglishPhrase(normalizeDatePhrase(text));
+    let match: RegExpMatchArray | null;
+
+    if (RELATIVE_DAYS[phrase] !== undefined) {
+        return daily(shiftJalaaliDate(today, [{ amount: RELATIVE_DAYS[phrase], unit: 'day' }]));
+    }
+
+    // The next occurrence of a weekday, today included, or the one a week after or before it
+    if ((match = phrase.match(/^(\S+)(?: (\S+))?$/)) && WEEKDAYS.includes(match[1])) {
+        const direction = readDirection(match[2]);
+        if (direction === null) {
+            return null;
+        }
+        const days = (WEEKDAYS.indexOf(match[1]) - getWeekdayIndex(today) + 7) % 7 + direction * 7;
+        return daily(shiftJalaaliDate(today, [{ amount: days, unit: 'day' }]));
+    }
+
+    if (phrase === 'امسال') {
+        return { kind: 'yearly', date: today };
+    }
+    if (phrase === 'پارسال') {
+        return { kind: 'yearly', date: shiftJalaaliDate(today, [{ amount: -1, unit: 'year' }]) };
+    }
+
+    // This, next or previous week, month, quarter or year
+    if ((match = phrase.match(/^(?:(این|همین) )?(هفته|ماه|فصل|سال)(?: (\S+))?$/)) && (match[1] || match[3])) {
+        const direction = readDirection(match[3]);
+        if (direction === null || (match[1] && direction !== 0)) {
+            return null;
+        }
+        const unit = UNITS[match[2]];
+        return { kind: UNIT_KINDS[unit], date: shiftJalaaliDate(today, [{ amount: direction, unit }]) };
+    }
+
+    // A number of days, weeks, months, quarters or years from today
+    match = phrase.match(/^(\S+) (روز|هفته|ماه|فصل|سال) (\S+)$/);
+    const amount = match ? readNumber(match[1]) : null;
+    if (match && amount !== null) {
+        const direction = readDirection(match[3]);
+        if (!direction) {
+            return null;
+        }
+        const unit = UNITS[match[2]];
+        const date = shiftWithinRange(today, amount * direction, unit);
+        return date && { kind: UNIT_KINDS[unit], date };
+    }
+
+    // First or last day of a period around today, or of a named month
+    if ((match = phrase.match(/^(\S+) (?:(?:این|همین) )?(\S+)(?: (\S+))?$/))
+        && (START_WORDS.includes(match[1]) || END_WORDS.includes(match[1]))) {
+        const boundary = START_WORDS.includes(match[1]) ? 'start' : 'end';
+        if (MONTHS[match[2]] !== undefined) {
+            const jy = match[3] !== undefined ? readNumber(match[3]) : today.jy;
+            return jy === null || !jalaali.isValidJalaaliDate(jy, 1, 1) ? null : daily(getPeriodBoundary({ jy, jm: MONTHS[match[2]], jd: 1 }, 'month', boundary));
+        }
+        const unit = UNITS[match[2]];
+        const direction = readDirection(match[3]);
+        if (!unit || unit === 'day' || direction === null) {
+            return null;
+        }
+        return daily(getPeriodBoundary(shiftJalaaliDate(today, [{ amount: direction, unit }]), unit, boundary));
+    }
+
+    // A day of a named month, this year unless a year is given
+    if ((match = phrase.match(/^(\d{1,2})(?:ام|م)? (\S+)(?: (\d{4}))?$/)) && MONTHS[match[2]] !== undefined) {
+        return daily({ jy: match[3] ? parseInt(match[3]) : today.jy, jm: MONTHS[match[2]], jd: parseInt(match[1]) });
+    }
+
+    // A named month, this year unless a year is given
+    if ((match = phrase.match(/^(\S+)(?: (\d{4}))?$/)) && MONTHS[match[1]] !== undefined) {
+        const date = { jy: match[2] ? parseInt(match[2]) : today.jy, jm: MONTHS[match[1]], jd: 1 };
+        return jalaali.isValidJalaaliDate(date.jy, date.jm, date.jd) ? { kind: 'monthly', date } : null;
+    }
+
+    if ((match = phrase.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/))) {
+        const [jy, jm, jd] = match.slice(1).map(Number);
+        return jy <= 1500 ? daily({ jy, jm, jd }) : null;
+    }
+
+    const named = NAMED_DAYS.find(day => day.names.includes(phrase));
+    return named ? daily(getNamedDay(named, today, settings)) : null;
+}
+
+/**
+ * Short Persian description of a target, e.g. `پنج‌شنبه ۱۱ مرداد ۱۴۰۳` or `هفته ۱۹ سال ۱۴۰۳`
+ */
+export function describeDateTarget(target: DateTarget, settings: HijriSettings): string {
+    const { date } = target;
+    switch (target.kind) {
+        case 'daily':
+            return formatPlaceholderDate(date, { format: 'dddd jD jMMMM jYYYY', language: 'fa' }, settings);
+        case 'weekly':
+            return toPersianDigits(`هفته ${getJalaaliWeek(date)} سال ${date.jy}`);
+        case 'monthly':
+            return formatPlaceholderDate(date, { format: 'jMMMM jYYYY', language: 'fa' }, settings);
+        case 'quarterly':
+            return toPersianDigits(`${['بهار', 'تابستان', 'پاییز', 'زمستان'][Math.ceil(date.jm / 3) - 1]} ${date.jy}`);
+        case 'yearly':
+            return toPersianDigits(`سال ${date.jy}`);
+    }
+}
+
+/**
+ * Index of the trigger the text before the cursor starts with, or -1. With
+ * requireWordBoundary the trigger has to start the line or follow a space, so e-mail
+ * addresses and mentions such as `ali@example.com` do not open the suggestions.
+ */
+export function findDateTrigger(line: string, ch: number, trigger: string, requireWordBoundary: boolean): number {
+    if (!trigger || ch < trigger.length) {
+        return -1;
+    }
+    const start = line.lastIndexOf(trigger, ch - trigger.length);
+    if (start === -1 || (requireWordBoundary && start > 0 && !/\s/.test(line[start - 1]))) {
+        return -1;
+    }
+    return start;
+}
+
+/**
+ * The text inserted for a target in the output style of the settings: a wikilink or
+ * markdown link to its note with the label as alias, the date as text, or for days the
+ * Jalaali date with its Gregorian date, e.g. `1403-05-12 (2024-08-02)`
+ */
+export function formatDateTarget(target: DateTarget, label: string, settings: PluginSettings): string {
+    const path = getPeriodicNotePath(settings, target.kind, target.date);
+    switch (settings.suggesterOutputStyle) {
+        case 'markdown':
+            return `[${label}](${encodeURI(path)})`;
+        case 'text':
+            return describeDateTarget(target, settings);
+        case 'dual':
+            return target.kind === 'daily'
+                ? formatPlaceholderDate(target.date, { format: 'jYYYY-jMM-jDD (YYYY-MM-DD)', language: 'en' }, settings)
+                : describeDateTarget(target, settings);
+        default:
+            return formatNoteLink(path, label);
+    }
+}
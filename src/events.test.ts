@@ -0,0 +1,34 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS, PluginSettings } from './settings';
+import { formatEventsPlaceholder, isWeekendDay } from './events';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+describe('isWeekendDay', () => {
+    test('follows the weekend setting, Saturday being 0', () => {
+        expect([0, 1, 2, 3, 4, 5, 6].filter(day => isWeekendDay('friday', day))).toEqual([6]);
+        expect([0, 1, 2, 3, 4, 5, 6].filter(day => isWeekendDay('thursday-friday', day))).toEqual([5, 6]);
+        expect([0, 1, 2, 3, 4, 5, 6].filter(day => isWeekendDay('friday-saturday', day))).toEqual([0, 6]);
+    });
+});
+
+describe('formatEventsPlaceholder', () => {
+    // 1402-10-11 is 2024-01-01
+    const newYear = { jy: 1402, jm: 10, jd: 11 };
+    const format = (settings: Partial<PluginSettings>, occurrences: unknown[] = []) => formatEventsPlaceholder({
+        settings: { ...DEFAULT_SETTINGS, showAncientIranianCalendar: false, showShiaCalendar: false, ...settings },
+        customEvents: { getEventsForDate: () => [{ title: 'تعطیلی شرکت', calendar: 'gregorian', month: 1, day: 1, holiday: true }] },
+        anniversaries: { getEventsForDate: () => [] },
+        icsCalendars: { getOccurrencesForDate: () => occurrences },
+    } as unknown as PersianCalendarPlugin, newYear);
+
+    test('lists the events the calendar shows, holidays marked', () => {
+        const standup = { event: { summary: 'Standup', allDay: true, calendarName: 'work' }, start: 0, end: 0 };
+        expect(format({ showOfficialIranianCalendar: true }, [standup])).toBe('* آغاز سال میلادی\n* تعطیلی شرکت (تعطیل)\n* Standup');
+    });
+
+    test('leaves out Gregorian events when the official calendar is off', () => {
+        expect(format({ showOfficialIranianCalendar: false })).toBe('* تعطیلی شرکت (تعطیل)');
+    });
+});
@@ -0,0 +1,102 @@
+import * as jalaali from 'jalaali-js';
+import type PersianCalendarPlugin from './main';
+import type { CalendarEvent, JalaaliDate, PluginSettings } from './settings';
+import { PersianCalendarHolidays, HijriCalendarHolidays, GregorianCalendarHolidays } from './holidays';
+import { getHijriDate } from './hijri';
+import type { CustomEventDate } from './customevents';
+import { formatAnniversaryTitle } from './anniversaries';
+import { formatIcsOccurrenceTitle } from './ics';
+
+/**
+ * A Jalaali day with its Gregorian and Hijri dates, as custom events and anniversaries match it.
+ * The Hijri date follows the configured Hijri calendar and adjustment.
+ */
+export function getCustomEventDate(date: JalaaliDate, settings: PluginSettings): CustomEventDate {
+    const { jy, jm, jd } = date;
+    const gregorian = jalaali.toGregorian(jy, jm, jd);
+    const hijri = getHijriDate({ jy, jm, jd }, settings.hijriCalendarType, settings.hijriDateAdjustment);
+    return { jalaali: { jy, jm, jd }, gregorian, hijri };
+}
+
+/**
+ * Whether a day of the week, Saturday being 0, is a weekend day with the weekend setting
+ */
+export function isWeekendDay(weekendDays: string, dayOfWeek: number): boolean {
+    return (weekendDays === 'thursday-friday' && (dayOfWeek === 5 || dayOfWeek === 6)) ||
+        (weekendDays === 'friday' && dayOfWeek === 6) ||
+        (weekendDays === 'friday-saturday' && (dayOfWeek === 6 || dayOfWeek === 0));
+}
+
+/**
+ * Every event shown in the calendar for a Jalaali day: the built-in calendars enabled in the
+ * settings, user-defined events, anniversaries and events of the imported .ics files.
+ * The years of anniversaries are written with toDigits.
+ */
+export function getCalendarEventsForDate(plugin: PersianCalendarPlugin, date: JalaaliDate, toDigits: (value: number) => string = String): CalendarEvent[] {
+    const settings = plugin.settings;
+    const eventDate = getCustomEventDate(date, settings);
+    const { jalaali: { jm, jd }, gregorian, hijri } = eventDate;
+    const events: CalendarEvent[] = [];
+    const addEvent = (event: CalendarEvent) => events.push(event);
+
+    // Persian Calendar Holidays
+    if (settings.showOfficialIranianCalendar || settings.showAncientIranianCalendar) {
+        PersianCalendarHolidays.forEach(event => {
+            if (event.month === jm && event.day === jd) {
+                if (settings.showOfficialIranianCalendar && event.type === "Iran") {
+                    addEvent({ title: event.title, isHoliday: event.holiday, type: event.type });
+                }
+                if (settings.showAncientIranianCalendar && event.type === "Ancient Iran") {
+                    addEvent({ title: event.title, isHoliday: event.holiday, type: event.type });
+                }
+            }
+        });
+    }
+
+    // Hijri Calendar Holidays
+    if (settings.showShiaCalendar) {
+        HijriCalendarHolidays.forEach(event => {
+            if (event.month === hijri.hm && event.day === hijri.hd) {
+                addEvent({ title: event.title, isHoliday: event.holiday, type: event.type });
+            }
+        });
+    }
+
+    // Gregorian Calendar Holidays
+    if (settings.showOfficialIranianCalendar) {
+        GregorianCalendarHolidays.forEach(event => {
+            if (event.month === gregorian.gm && event.day === gregorian.gd) {
+                addEvent({ title: event.title, isHoliday: event.holiday, type: event.type });
+            }
+        });
+    }
+
+    // User-defined events from the vault
+    plugin.customEvents.getEventsForDate(eventDate).forEach(event => {
+        addEvent({ title: event.title, isHoliday: event.holiday, type: 'Custom', category: event.category, color: event.color });
+    });
+
+    // Birthdays and anniversaries from note frontmatter
+    plugin.anniversaries.getEventsForDate(eventDate).forEach(event => {
+        addEvent({ title: formatAnniversaryTitle(event, toDigits), isHoliday: false, type: 'Anniversary' });
+    });
+
+    // Events imported from .ics files, in local time
+    plugin.icsCalendars.getOccurrencesForDate(gregorian.gy, gregorian.gm, gregorian.gd).forEach(occurrence => {
+        addEvent({ title: formatIcsOccurrenceTitle(occurrence), isHoliday: false, type: 'Calendar', category: occurrence.event.calendarName });
+    });
+
+    return events;
+}
+
+/**
+ * Text of the {{مناسبت}} placeholder: the events of a day as the calendar shows them, as a
+ * bulleted list with holidays marked
+ */
+export function formatEventsPlaceholder(plugin: PersianCalendarPlugin, date: JalaaliDate): string {
+    const events = getCalendarEventsForDate(plugin, date);
+    if (events.length === 0) {
+        return 'هیچ رویدادی برای این روز ثبت نشده است.';
+    }
+    return events.map(event => `* ${event.title}${event.isHoliday ? ' (تعطیل)' : ''}`).join('\n');
+}
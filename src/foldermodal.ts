@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+/**
+ * Asks for a folder of the vault, the vault root included
+ */
+export default class FolderModal extends FuzzySuggestModal<TFolder> {
+    private onChoose: (folder: TFolder) => void;
+
+    constructor(app: App, onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('پوشه را انتخاب کنید');
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder);
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? '/' : folder.path;
+    }
+
+    onChooseItem(folder: TFolder): void {
+        this.onChoose(folder);
+    }
+}
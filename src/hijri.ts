@@ -1,3 +1,7 @@
+import * as jalaali from 'jalaali-js';
+import hijriMoment from 'moment-hijri';
+import type { JalaaliDate } from './settings';
+
 export const iranianHijriAdjustments: { [key: number]: { [key: number]: number } } = {
     1445: { 1: 30, 2: 29, 3: 30, 4: 29, 5: 30, 6: 29, 7: 30, 8: 29, 9: 30, 10: 29, 11: 30, 12: 29 },
     1446: { 1: 30, 2: 30, 3: 30, 4: 29, 5: 30, 6: 30, 7: 29, 8: 30, 9: 29, 10: 30, 11: 29, 12: 29 },
@@ -8,3 +12,88 @@ export const iranianHijriAdjustments: { [key: number]: { [key: number]: number }
 export const basePersianDate = { jy: 1402, jm: 4, jd: 28 };
 export const baseHijriDate = { hy: 1445, hm: 1, hd: 1 };
 
+export type HijriDate = { hy: number, hm: number, hd: number };
+
+function calculateDayDifference(fromDate: { jy: number, jm: number, jd: number }, toDate: { jy: number, jm: number, jd: number }): number {
+    const fromGregorian = jalaali.toGregorian(fromDate.jy, fromDate.jm, fromDate.jd);
+    const toGregorian = jalaali.toGregorian(toDate.jy, toDate.jm, toDate.jd);
+    const fromDateObj = new Date(fromGregorian.gy, fromGregorian.gm - 1, fromGregorian.gd);
+    const toDateObj = new Date(toGregorian.gy, toGregorian.gm - 1, toGregorian.gd);
+    const timeDiff = toDateObj.getTime() - fromDateObj.getTime();
+    return timeDiff / (1000 * 3600 * 24);
+}
+
+function calculateIranianHijriDate(baseDate: HijriDate, dayDifference: number): HijriDate {
+    let { hy, hm, hd } = baseDate;
+
+    while (dayDifference > 0) {
+        const monthLength = iranianHijriAdjustments[hy] ? iranianHijriAdjustments[hy][hm] : null;
+        if (!monthLength) {
+            break;
+        }
+        if (hd + dayDifference <= monthLength) {
+            hd += dayDifference;
+            dayDifference = 0;
+        } else {
+            dayDifference -= (monthLength - hd + 1);
+            hd = 1;
+            hm += 1;
+            if (hm > 12) {
+                hm = 1;
+                hy += 1;
+            }
+        }
+    }
+    if (dayDifference === 0) {
+        return { hy, hm, hd };
+    }
+
+    // Outside the months above, count the remaining days from where the table stops with the
+    // Umm al-Qura month lengths
+    const hijriMomentDate = hijriMoment(`${hy}-${hm}-${hd}`, 'iYYYY-iM-iD').add(dayDifference, 'days');
+    return {
+        hy: hijriMomentDate.iYear(),
+        hm: hijriMomentDate.iMonth() + 1,
+        hd: hijriMomentDate.iDate()
+    };
+}
+
+/**
+ * Hijri date of a Jalaali day, from the Iranian month lengths above or from Umm al-Qura
+ * shifted by the configured adjustment
+ */
+export function getHijriDate(persianDate: { jy: number, jm: number, jd: number }, calendarType: string, ummalquraAdjustment: number): HijriDate {
+    if (calendarType === 'ummalqura') {
+        const gregorianDate = jalaali.toGregorian(persianDate.jy, persianDate.jm, persianDate.jd);
+        const gregorianDateStr = `${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`;
+        const hijriMomentDate = hijriMoment(gregorianDateStr, 'YYYY-M-D').add(ummalquraAdjustment, 'days');
+        return {
+            hy: hijriMomentDate.iYear(),
+            hm: hijriMomentDate.iMonth() + 1,
+            hd: hijriMomentDate.iDate()
+        };
+    } else {
+        const dayDifference = calculateDayDifference(basePersianDate, persianDate);
+        return calculateIranianHijriDate(baseHijriDate, dayDifference);
+    }
+}
+
+/**
+ * Jalaali day of a Hijri date, the inverse of getHijriDate with the same settings. Returns
+ * null when no day has that Hijri date, e.g. the 30th of a 29-day month.
+ */
+export function getJalaaliFromHijri(hijriDate: HijriDate, calendarType: string, ummalquraAdjustment: number): JalaaliDate | null {
+    // Estimate the distance from the base date with the mean month length, then search around it
+    const months = (hijriDate.hy - baseHijriDate.hy) * 12 + hijriDate.hm - baseHijriDate.hm;
+    const estimate = Math.round(months * 29.530589) + hijriDate.hd - baseHijriDate.hd;
+    const base = jalaali.toGregorian(basePersianDate.jy, basePersianDate.jm, basePersianDate.jd);
+    for (const offset of [0, -1, 1, -2, 2, -3, 3, -4, 4]) {
+        const day = new Date(Date.UTC(base.gy, base.gm - 1, base.gd + estimate + offset));
+        const date = jalaali.toJalaali(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate());
+        const result = getHijriDate(date, calendarType, ummalquraAdjustment);
+        if (result.hy === hijriDate.hy && result.hm === hijriDate.hm && result.hd === hijriDate.hd) {
+            return date;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,202 @@
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS } from './settings';
+import IcsCalendarStore, {
+    IcsEvent,
+    expandIcsEvent,
+    formatIcsOccurrenceTitle,
+    parseIcsCalendar,
+    parseIcsDuration,
+    parseRecurrenceRule,
+    toTimestamp,
+    unfoldIcsLines,
+} from './ics';
+import { buildIcsCalendar } from './icsexport';
+
+function calendar(...events: string[][]): string {
+    return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.map(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n')), 'END:VCALENDAR'].join('\r\n');
+}
+
+function parseOne(lines: string[]): IcsEvent {
+    return parseIcsCalendar(calendar(lines), 'Work')[0];
+}
+
+function localDays(event: IcsEvent, from: Date, to: Date): string[] {
+    return expandIcsEvent(event, from.getTime(), to.getTime()).map(occurrence => {
+        const date = new Date(occurrence.start);
+        return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+    });
+}
+
+describe('parsing', () => {
+    test('unfolds continuation lines', () => {
+        expect(unfoldIcsLines('SUMMARY:Long\r\n  title\r\nUID:1\r\n')).toEqual(['SUMMARY:Long title', 'UID:1']);
+    });
+
+    test('reads durations', () => {
+        expect(parseIcsDuration('PT1H30M')).toBe(90 * 60 * 1000);
+        expect(parseIcsDuration('P1W2D')).toBe(9 * 24 * 60 * 60 * 1000);
+        expect(parseIcsDuration('soon')).toBeNull();
+    });
+
+    test('reads recurrence rules', () => {
+        expect(parseRecurrenceRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=2MO,-1FR;COUNT=5')).toEqual({
+            freq: 'MONTHLY', interval: 2, count: 5, byDay: [{ weekday: 1, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+            byMonthDay: [], byMonth: [], weekStart: 1,
+        });
+        expect(parseRecurrenceRule('FREQ=SECONDLY')).toBeNull();
+    });
+
+    test('reads all-day, UTC, zoned and escaped events', () => {
+        const events = parseIcsCalendar(calendar(
+            ['UID:a', 'SUMMARY:Offsite\\, day one', 'DTSTART;VALUE=DATE:20240801', 'DTEND;VALUE=DATE:20240803'],
+            ['UID:b', 'SUMMARY:Standup', 'DTSTART:20240801T063000Z', 'DURATION:PT15M', 'LOCATION:Room 2'],
+            ['UID:c', 'SUMMARY:Review', 'DTSTART;TZID="Europe/Berlin":20240801T090000', 'DTEND;TZID="Europe/Berlin":20240801T100000'],
+            ['UID:d', 'SUMMARY:No start'],
+        ).replace('VERSION:2.0', 'VERSION:2.0\r\nX-WR-CALNAME:Team'), 'fallback');
+
+        expect(events.map(event => event.uid)).toEqual(['a', 'b', 'c']);
+        expect(events[0]).toMatchObject({ summary: 'Offsite, day one', allDay: true, duration: 2, calendarName: 'Team' });
+        expect(events[1]).toMatchObject({ allDay: false, duration: 15 * 60 * 1000, location: 'Room 2' });
+        expect(toTimestamp(events[1].start)).toBe(Date.UTC(2024, 7, 1, 6, 30));
+        // Berlin is UTC+2 in summer
+        expect(toTimestamp(events[2].start)).toBe(Date.UTC(2024, 7, 1, 7, 0));
+        expect(events[2].duration).toBe(60 * 60 * 1000);
+    });
+
+    test('replaces and cancels single occurrences of a series by RECURRENCE-ID', () => {
+        const year2024 = [new Date(2024, 0, 1), new Date(2025, 0, 1)] as const;
+        const events = parseIcsCalendar(calendar(
+            ['UID:standup', 'SUMMARY:Standup', 'DTSTART:20240805T090000', 'RRULE:FREQ=WEEKLY;COUNT=4'],
+            ['UID:standup', 'SUMMARY:Standup (moved)', 'RECURRENCE-ID:20240812T090000', 'DTSTART:20240813T100000'],
+            ['UID:standup', 'STATUS:CANCELLED', 'RECURRENCE-ID:20240819T090000', 'DTSTART:20240819T090000'],
+        ), 'Work');
+
+        expect(events.map(event => event.summary)).toEqual(['Standup', 'Standup (moved)']);
+        expect(localDays(events[0], ...year2024)).toEqual(['2024-8-5', '2024-8-26']);
+        expect(localDays(events[1], ...year2024)).toEqual(['2024-8-13']);
+    });
+
+    test('skips cancelled events and every occurrence of cancelled series', () => {
+        const events = parseIcsCalendar(calendar(
+            ['UID:a', 'SUMMARY:Kept', 'DTSTART;VALUE=DATE:20240801'],
+            ['UID:b', 'SUMMARY:Called off', 'STATUS:CANCELLED', 'DTSTART;VALUE=DATE:20240802'],
+            ['UID:c', 'SUMMARY:Weekly', 'STATUS:CANCELLED', 'DTSTART;VALUE=DATE:20240805', 'RRULE:FREQ=WEEKLY'],
+            ['UID:c', 'SUMMARY:Weekly (moved)', 'RECURRENCE-ID;VALUE=DATE:20240812', 'DTSTART;VALUE=DATE:20240813'],
+        ), 'Work');
+
+        expect(events.map(event => event.summary)).toEqual(['Kept']);
+    });
+
+    test('falls back to local time for unknown zones', () => {
+        const event = parseOne(['DTSTART;TZID=Made Up Standard Time:20240801T090000']);
+        expect(toTimestamp(event.start)).toBe(new Date(2024, 7, 1, 9, 0).getTime());
+    });
+});
+
+describe('expandIcsEvent', () => {
+    const year2024 = [new Date(2024, 0, 1), new Date(2025, 0, 1)] as const;
+
+    test('returns a single event only when it overlaps the range', () => {
+        const event = parseOne(['DTSTART;VALUE=DATE:20240801']);
+        expect(localDays(event, ...year2024)).toEqual(['2024-8-1']);
+        expect(localDays(event, new Date(2024, 7, 2), new Date(2024, 7, 3))).toEqual([]);
+    });
+
+    test('expands weekly rules with BYDAY, COUNT and EXDATE', () => {
+        const event = parseOne([
+            'DTSTART:20240805T090000', // a Monday, floating time
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+            'EXDATE:20240807T090000',
+        ]);
+        expect(localDays(event, ...year2024)).toEqual(['2024-8-5', '2024-8-12', '2024-8-14', '2024-8-19']);
+    });
+
+    test('expands daily rules with an interval until a date', () => {
+        const event = parseOne(['DTSTART;VALUE=DATE:20241229', 'RRULE:FREQ=DAILY;INTERVAL=2;UNTIL=20250104']);
+        expect(localDays(event, new Date(2024, 11, 1), new Date(2025, 1, 1))).toEqual(['2024-12-29', '2024-12-31', '2025-1-2', '2025-1-4']);
+    });
+
+    test('expands monthly rules by ordinal weekday and skips missing days', () => {
+        const lastFriday = parseOne(['DTSTART;VALUE=DATE:20240126', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3']);
+        expect(localDays(lastFriday, ...year2024)).toEqual(['2024-1-26', '2024-2-23', '2024-3-29']);
+
+        const the31st = parseOne(['DTSTART;VALUE=DATE:20240131', 'RRULE:FREQ=MONTHLY;COUNT=3']);
+        expect(localDays(the31st, ...year2024)).toEqual(['2024-1-31', '2024-3-31', '2024-5-31']);
+    });
+
+    test('expands yearly rules into later years', () => {
+        const event = parseOne(['DTSTART;VALUE=DATE:20001225', 'RRULE:FREQ=YEARLY']);
+        expect(localDays(event, ...year2024)).toEqual(['2024-12-25']);
+
+        const thanksgiving = parseOne(['DTSTART;VALUE=DATE:20201126', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH']);
+        expect(localDays(thanksgiving, ...year2024)).toEqual(['2024-11-28']);
+    });
+
+    test('includes occurrences that started before the range but still run', () => {
+        const event = parseOne(['DTSTART;VALUE=DATE:20241230', 'DTEND;VALUE=DATE:20250103']);
+        expect(localDays(event, new Date(2025, 0, 1), new Date(2026, 0, 1))).toEqual(['2024-12-30']);
+    });
+});
+
+describe('formatIcsOccurrenceTitle', () => {
+    test('prefixes timed events with their local start time', () => {
+        const timed = parseOne(['SUMMARY:Standup', 'DTSTART:20240801T093000']);
+        const allDay = parseOne(['SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20240801']);
+        const [timedOccurrence] = expandIcsEvent(timed, 0, Infinity);
+        const [allDayOccurrence] = expandIcsEvent(allDay, 0, Infinity);
+        expect(formatIcsOccurrenceTitle(timedOccurrence)).toBe('09:30 Standup');
+        expect(formatIcsOccurrenceTitle(allDayOccurrence)).toBe('Offsite');
+    });
+});
+
+describe('IcsCalendarStore', () => {
+    function createStore(files: { [path: string]: string }, icsFolderPath: string): IcsCalendarStore {
+        const plugin = {
+            settings: { ...DEFAULT_SETTINGS, icsFolderPath },
+            app: {
+                vault: {
+                    getFiles: jest.fn(() => Object.keys(files).map(path => ({ path, basename: path.split('/').pop()?.replace(/\.ics$/, '') }))),
+                    cachedRead: jest.fn(async (file: { path: string }) => files[file.path]),
+                },
+            },
+        } as unknown as PersianCalendarPlugin;
+        return new IcsCalendarStore(plugin);
+    }
+
+    test('lists occurrences on every local day they cover, all-day events first', async () => {
+        const store = createStore({
+            'Calendars/work.ics': calendar(
+                ['SUMMARY:Standup', 'DTSTART:20240801T090000', 'RRULE:FREQ=DAILY;COUNT=3'],
+                ['SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20240802', 'DTEND;VALUE=DATE:20240804'],
+            ),
+            'Other/home.ics': calendar(['SUMMARY:Elsewhere', 'DTSTART;VALUE=DATE:20240802']),
+        }, 'Calendars');
+        await store.load();
+
+        expect(store.getOccurrencesForDate(2024, 8, 1).map(formatIcsOccurrenceTitle)).toEqual(['09:00 Standup']);
+        expect(store.getOccurrencesForDate(2024, 8, 2).map(formatIcsOccurrenceTitle)).toEqual(['Offsite', '09:00 Standup']);
+        expect(store.getOccurrencesForDate(2024, 8, 3).map(formatIcsOccurrenceTitle)).toEqual(['Offsite', '09:00 Standup']);
+        expect(store.getOccurrencesForDate(2024, 8, 4)).toEqual([]);
+        expect(store.getOccurrencesForDate(2024, 8, 2)[0].event.calendarName).toBe('work');
+    });
+
+    test('skips calendars written by the export command', async () => {
+        const store = createStore({
+            'work.ics': calendar(['SUMMARY:Standup', 'DTSTART;VALUE=DATE:20240801']),
+            'Persian Calendar 1403.ics': buildIcsCalendar('تقویم ایران 1403', [
+                { gregorian: { gy: 2024, gm: 8, gd: 1 }, title: 'روز ملی', holiday: false, category: 'تقویم رسمی' },
+            ]),
+        }, '/');
+        await store.load();
+
+        expect(store.getOccurrencesForDate(2024, 8, 1).map(formatIcsOccurrenceTitle)).toEqual(['Standup']);
+    });
+
+    test('recognizes .ics files in the folder only when one is set', () => {
+        expect(createStore({}, 'Calendars').isSourcePath('Calendars/work.ics')).toBe(true);
+        expect(createStore({}, 'Calendars').isSourcePath('Calendars/notes.md')).toBe(false);
+        expect(createStore({}, 'Calendars').isSourcePath('Other/work.ics')).toBe(false);
+        expect(createStore({}, '/').isSourcePath('Other/work.ics')).toBe(true);
+        expect(createStore({}, '').isSourcePath('work.ics')).toBe(false);
+    });
+});
@@ -0,0 +1,579 @@
+import type PersianCalendarPlugin from './main';
+
+/**
+ * A date and time as written in an .ics file. `zone` is 'UTC' for times ending in Z,
+ * the TZID parameter for zoned times, and undefined for floating times and dates.
+ */
+export interface IcsDateTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    zone?: string;
+}
+
+export interface IcsRecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+    interval: number;
+    count?: number;
+    until?: number;
+    // weekday: 0 = Sunday, ordinal: e.g. 2 for 2MO, -1 for -1FR
+    byDay: { weekday: number, ordinal?: number }[];
+    byMonthDay: number[];
+    byMonth: number[];
+    weekStart: number;
+}
+
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    location?: string;
+    calendarName: string;
+    allDay: boolean;
+    start: IcsDateTime;
+    // Whole days for all-day events, milliseconds for timed events
+    duration: number;
+    rrule?: IcsRecurrenceRule;
+    exdates: number[];
+    // Start of the occurrence of the recurring event with the same UID that this one replaces
+    recurrenceId?: number;
+}
+
+export interface IcsOccurrence {
+    event: IcsEvent;
+    start: number;
+    end: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against rules that never reach the requested range
+const MAX_RECURRENCE_PERIODS = 100000;
+
+/**
+ * Split an .ics file into logical lines, joining folded continuation lines
+ */
+export function unfoldIcsLines(text: string): string[] {
+    return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '');
+}
+
+function parseProperty(line: string): { name: string, params: { [key: string]: string }, value: string } {
+    // Parameter values may be quoted and contain ':' or ';'
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') {
+            inQuotes = !inQuotes;
+        } else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    const head = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1);
+    const [name, ...paramParts] = head.split(';');
+    const params: { [key: string]: string } = {};
+    paramParts.forEach(part => {
+        const eq = part.indexOf('=');
+        if (eq !== -1) {
+            params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+    });
+    return { name: name.toUpperCase(), params, value };
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_match, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+}
+
+export function parseIcsDateTime(value: string, params: { [key: string]: string } = {}): { dateTime: IcsDateTime, allDay: boolean } | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+        return null;
+    }
+    const allDay = params.VALUE === 'DATE' || match[4] === undefined;
+    const dateTime: IcsDateTime = {
+        year: parseInt(match[1]),
+        month: parseInt(match[2]),
+        day: parseInt(match[3]),
+        hour: allDay ? 0 : parseInt(match[4]),
+        minute: allDay ? 0 : parseInt(match[5]),
+        second: allDay ? 0 : parseInt(match[6]),
+    };
+    if (!allDay) {
+        const zone = match[7] ? 'UTC' : params.TZID;
+        if (zone) {
+            dateTime.zone = zone;
+        }
+    }
+    return { dateTime, allDay };
+}
+
+/**
+ * Read an RFC 5545 duration such as P1D or PT1H30M into milliseconds
+ */
+export function parseIcsDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) {
+        return null;
+    }
+    const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => part ? parseInt(part) : 0);
+    const duration = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+    return match[1] === '-' ? -duration : duration;
+}
+
+export function parseRecurrenceRule(value: string): IcsRecurrenceRule | null {
+    const parts: { [key: string]: string } = {};
+    value.split(';').forEach(part => {
+        const [key, partValue] = part.split('=');
+        if (key && partValue !== undefined) {
+            parts[key.toUpperCase()] = partValue.toUpperCase();
+        }
+    });
+    const freq = parts.FREQ;
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+        return null;
+    }
+
+    const numbers = (list?: string) => list ? list.split(',').map(item => parseInt(item)).filter(item => !isNaN(item)) : [];
+    const byDay: { weekday: number, ordinal?: number }[] = [];
+    (parts.BYDAY ? parts.BYDAY.split(',') : []).forEach(item => {
+        const dayMatch = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (dayMatch) {
+            byDay.push({ weekday: WEEKDAYS.indexOf(dayMatch[2]), ordinal: dayMatch[1] ? parseInt(dayMatch[1]) : undefined });
+        }
+    });
+
+    const rule: IcsRecurrenceRule = {
+        freq,
+        interval: Math.max(1, parseInt(parts.INTERVAL ?? '1') || 1),
+        byDay,
+        byMonthDay: numbers(parts.BYMONTHDAY),
+        byMonth: numbers(parts.BYMONTH),
+        weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+    };
+    if (parts.COUNT) {
+        rule.count = parseInt(parts.COUNT);
+    }
+    if (parts.UNTIL) {
+        const until = parseIcsDateTime(parts.UNTIL);
+        if (until) {
+            // An UNTIL date includes the whole day
+            rule.until = toTimestamp(until.dateTime) + (until.allDay ? DAY_MS - 1 : 0);
+        }
+    }
+    return rule;
+}
+
+/**
+ * Read every VEVENT of an .ics file. Events without a usable DTSTART and cancelled events
+ * are skipped, and events with a RECURRENCE-ID replace that occurrence of their series.
+ */
+export function parseIcsCalendar(text: string, defaultCalendarName: string): IcsEvent[] {
+    const events: IcsEvent[] = [];
+    const cancelled: IcsEvent[] = [];
+    let calendarName = defaultCalendarName;
+    let current: { [name: string]: { params: { [key: string]: string }, value: string }[] } | null = null;
+
+    unfoldIcsLines(text).forEach(line => {
+        const { name, params, value } = parseProperty(line);
+        if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+            current = {};
+        } else if (name === 'END' && value.toUpperCase() === 'VEVENT') {
+            const event = current ? buildEvent(current, calendarName) : null;
+            if (event) {
+                const status = current?.STATUS?.[0]?.value.trim().toUpperCase();
+                (status === 'CANCELLED' ? cancelled : events).push(event);
+            }
+            current = null;
+        } else if (current) {
+            (current[name] = current[name] ?? []).push({ params, value });
+        } else if (name === 'X-WR-CALNAME' && value.trim()) {
+            calendarName = unescapeText(value.trim());
+            events.forEach(event => event.calendarName = calendarName);
+        }
+    });
+    return applyRecurrenceOverrides(events, cancelled);
+}
+
+// Removes the occurrences that overridden or cancelled instances replace from their series,
+// and every event of a cancelled series
+function applyRecurrenceOverrides(events: IcsEvent[], cancelled: IcsEvent[]): IcsEvent[] {
+    const cancelledSeries = cancelled.filter(event => event.recurrenceId === undefined).map(event => event.uid);
+    [...events, ...cancelled].forEach(override => {
+        if (override.recurrenceId === undefined || !override.uid) {
+            return;
+        }
+        events
+            .filter(event => event.uid === override.uid && event.recurrenceId === undefined && event.rrule)
+            .forEach(series => series.exdates.push(override.recurrenceId as number));
+    });
+    return events.filter(event => !event.uid || !cancelledSeries.includes(event.uid));
+}
+
+function buildEvent(properties: { [name: string]: { params: { [key: string]: string }, value: string }[] }, calendarName: string): IcsEvent | null {
+    const first = (name: string) => properties[name]?.[0];
+    const dtstart = first('DTSTART');
+    const start = dtstart ? parseIcsDateTime(dtstart.value, dtstart.params) : null;
+    if (!start) {
+        return null;
+    }
+
+    let duration = start.allDay ? 1 : 0;
+    const dtend = first('DTEND');
+    const end = dtend ? parseIcsDateTime(dtend.value, dtend.params) : null;
+    const durationProperty = first('DURATION');
+    if (end) {
+        duration = start.allDay
+            ? Math.round((wallDayNumber(end.dateTime) - wallDayNumber(start.dateTime)))
+            : toTimestamp(end.dateTime) - toTimestamp(start.dateTime);
+    } else if (durationProperty) {
+        const ms = parseIcsDuration(durationProperty.value);
+        if (ms !== null) {
+            duration = start.allDay ? Math.round(ms / DAY_MS) : ms;
+        }
+    }
+
+    const exdates: number[] = [];
+    (properties.EXDATE ?? []).forEach(property => {
+        property.value.split(',').forEach(value => {
+            const exdate = parseIcsDateTime(value, property.params);
+            if (exdate) {
+                exdates.push(toTimestamp(exdate.dateTime));
+            }
+        });
+    });
+
+    const rrule = first('RRULE');
+    const event: IcsEvent = {
+        uid: first('UID')?.value ?? '',
+        summary: unescapeText(first('SUMMARY')?.value ?? '').trim() || '(بدون عنوان)',
+        calendarName,
+        allDay: start.allDay,
+        start: start.dateTime,
+        duration: Math.max(duration, start.allDay ? 1 : 0),
+        exdates,
+    };
+    const location = first('LOCATION');
+    if (location && location.value.trim()) {
+        event.location = unescapeText(location.value.trim());
+    }
+    const rule = rrule ? parseRecurrenceRule(rrule.value) : null;
+    if (rule) {
+        event.rrule = rule;
+    }
+    const recurrenceIdProperty = first('RECURRENCE-ID');
+    const recurrenceId = recurrenceIdProperty ? parseIcsDateTime(recurrenceIdProperty.value, recurrenceIdProperty.params) : null;
+    if (recurrenceId) {
+        event.recurrenceId = toTimestamp(recurrenceId.dateTime);
+    }
+    return event;
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function getZoneOffset(timestamp: number, zone: string): number {
+    const date = new Date(timestamp);
+    const inZone = new Date(date.toLocaleString('en-US', { timeZone: zone }));
+    const inUtc = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }));
+    return inZone.getTime() - inUtc.getTime();
+}
+
+/**
+ * The instant of an .ics date-time. Floating times and dates are taken in the local zone,
+ * as are zoned times whose TZID the runtime does not know.
+ */
+export function toTimestamp(dateTime: IcsDateTime): number {
+    const { year, month, day, hour, minute, second, zone } = dateTime;
+    if (!zone) {
+        return new Date(year, month - 1, day, hour, minute, second).getTime();
+    }
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    if (zone === 'UTC') {
+        return asUtc;
+    }
+    try {
+        const offset = getZoneOffset(asUtc, zone);
+        // Check again at the corrected instant, in case it falls on the other side of a DST change
+        const corrected = getZoneOffset(asUtc - offset, zone);
+        return asUtc - corrected;
+    } catch {
+        return new Date(year, month - 1, day, hour, minute, second).getTime();
+    }
+}
+
+function wallDayNumber(dateTime: { year: number, month: number, day: number }): number {
+    return Math.floor(Date.UTC(dateTime.year, dateTime.month - 1, dateTime.day) / DAY_MS);
+}
+
+function fromWallDayNumber(dayNumber: number): { year: number, month: number, day: number } {
+    const date = new Date(dayNumber * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Days of one month picked by BYDAY and BYMONTHDAY, or the day of DTSTART
+function getMonthCandidates(year: number, month: number, rule: IcsRecurrenceRule, startDay: number): number[] {
+    const length = daysInMonth(year, month);
+    const days: number[] = [];
+    rule.byMonthDay.forEach(day => days.push(day > 0 ? day : length + day + 1));
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+        const matching: number[] = [];
+        for (let day = 1; day <= length; day++) {
+            if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) {
+                matching.push(day);
+            }
+        }
+        if (ordinal === undefined) {
+            days.push(...matching);
+        } else {
+            const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+            if (picked !== undefined) {
+                days.push(picked);
+            }
+        }
+    });
+    if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+        days.push(startDay);
+    }
+    // Days that do not exist in this month (e.g. the 31st) are skipped, as RFC 5545 requires
+    return days.filter((day, index) => day >= 1 && day <= length && days.indexOf(day) === index).sort((a, b) => a - b);
+}
+
+// Candidate days (as wall day numbers) of the period-th repetition of a rule
+function getPeriodCandidates(rule: IcsRecurrenceRule, start: IcsDateTime, period: number): number[] {
+    const startDayNumber = wallDayNumber(start);
+    switch (rule.freq) {
+        case 'DAILY': {
+            const dayNumber = startDayNumber + period * rule.interval;
+            const weekday = new Date(dayNumber * DAY_MS).getUTCDay();
+            return rule.byDay.length === 0 || rule.byDay.some(day => day.weekday === weekday) ? [dayNumber] : [];
+        }
+        case 'WEEKLY': {
+            const startWeekday = new Date(startDayNumber * DAY_MS).getUTCDay();
+            const weekStart = startDayNumber - (startWeekday - rule.weekStart + 7) % 7 + period * rule.interval * 7;
+            const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [startWeekday];
+            return weekdays.map(weekday => weekStart + (weekday - rule.weekStart + 7) % 7).sort((a, b) => a - b);
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.year * 12 + start.month - 1 + period * rule.interval;
+            const year = Math.floor(monthIndex / 12);
+            const month = monthIndex % 12 + 1;
+            if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) {
+                return [];
+            }
+            return getMonthCandidates(year, month, rule, start.day).map(day => wallDayNumber({ year, month, day }));
+        }
+        case 'YEARLY': {
+            const year = start.year + period * rule.interval;
+            const months = rule.byMonth.length > 0 ? rule.byMonth.slice().sort((a, b) => a - b) : [start.month];
+            const candidates: number[] = [];
+            months.forEach(month => {
+                getMonthCandidates(year, month, rule, start.day).forEach(day => candidates.push(wallDayNumber({ year, month, day })));
+            });
+            return candidates;
+        }
+    }
+}
+
+function getOccurrence(event: IcsEvent, dayNumber: number): IcsOccurrence {
+    const startDateTime = { ...event.start, ...fromWallDayNumber(dayNumber) };
+    const start = toTimestamp(startDateTime);
+    const end = event.allDay
+        ? toTimestamp({ ...startDateTime, ...fromWallDayNumber(dayNumber + event.duration) })
+        : start + event.duration;
+    return { event, start, end };
+}
+
+/**
+ * All occurrences of an event that overlap [rangeStart, rangeEnd), following its RRULE and EXDATEs
+ */
+export function expandIcsEvent(event: IcsEvent, rangeStart: number, rangeEnd: number): IcsOccurrence[] {
+    const occurrences: IcsOccurrence[] = [];
+    const overlaps = (occurrence: IcsOccurrence) => occurrence.end > rangeStart && occurrence.start < rangeEnd
+        // Zero-length events still show on the day they happen
+        || (occurrence.start === occurrence.end && occurrence.start >= rangeStart && occurrence.start < rangeEnd);
+    const startDayNumber = wallDayNumber(event.start);
+    const rule = event.rrule;
+    if (!rule) {
+        const occurrence = getOccurrence(event, startDayNumber);
+        return overlaps(occurrence) ? [occurrence] : [];
+    }
+
+    // Occurrences that start well before the range cannot overlap it and need no time zone math
+    const durationDays = event.allDay ? event.duration : Math.ceil(event.duration / DAY_MS);
+    const firstRelevantDay = Math.floor(rangeStart / DAY_MS) - durationDays - 2;
+    const lastRelevantDay = Math.floor(rangeEnd / DAY_MS) + 2;
+    const untilDay = rule.until !== undefined ? Math.floor(rule.until / DAY_MS) + 2 : Infinity;
+
+    let count = 0;
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+        const candidates = getPeriodCandidates(rule, event.start, period).filter(day => day >= startDayNumber);
+        for (const dayNumber of candidates) {
+            if (dayNumber > lastRelevantDay || dayNumber > untilDay) {
+                return occurrences;
+            }
+            count++;
+            if (rule.count !== undefined && count > rule.count) {
+                return occurrences;
+            }
+            if (dayNumber < firstRelevantDay) {
+                continue;
+            }
+            const occurrence = getOccurrence(event, dayNumber);
+            if (rule.until !== undefined && occurrence.start > rule.until) {
+                return occurrences;
+            }
+            if (!event.exdates.includes(occurrence.start) && overlaps(occurrence)) {
+                occurrences.push(occurrence);
+            }
+        }
+    }
+    return occurrences;
+}
+
+/**
+ * PRODID of the calendars the export command writes. They hold the events the calendar
+ * already shows, so they are not imported back.
+ */
+export const EXPORT_PRODID = '-//Persian Calendar//Obsidian//FA';
+
+export function isExportedCalendar(text: string): boolean {
+    return unfoldIcsLines(text).includes(`PRODID:${EXPORT_PRODID}`);
+}
+
+export function escapeIcsText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, as RFC 5545 requires.
+ * Lengths are counted in UTF-8 bytes, so Persian text folds earlier than Latin text.
+ */
+export function foldIcsLine(line: string): string {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of Array.from(line)) {
+        const bytes = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts towards their 75 octets
+        const limit = lines.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            lines.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+}
+
+export function formatIcsDate(gy: number, gm: number, gd: number): string {
+    return `${gy}${`0${gm}`.slice(-2)}${`0${gd}`.slice(-2)}`;
+}
+
+function localDayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Title for the tooltip and agenda: the local start time for timed events
+ */
+export function formatIcsOccurrenceTitle(occurrence: IcsOccurrence): string {
+    if (occurrence.event.allDay) {
+        return occurrence.event.summary;
+    }
+    const start = new Date(occurrence.start);
+    const pad = (value: number) => `0${value}`.slice(-2);
+    return `${pad(start.getHours())}:${pad(start.getMinutes())} ${occurrence.event.summary}`;
+}
+
+/**
+ * Events of the .ics files in the folder set in the settings. Occurrences are expanded
+ * one Gregorian year at a time and bucketed by local day.
+ */
+export default class IcsCalendarStore {
+    plugin: PersianCalendarPlugin;
+    private events: IcsEvent[] = [];
+    private occurrencesByYear: Map<number, Map<string, IcsOccurrence[]>> = new Map();
+
+    constructor(plugin: PersianCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    public async load(): Promise<void> {
+        const events: IcsEvent[] = [];
+        for (const file of this.getSourceFiles()) {
+            try {
+                const content = await this.plugin.app.vault.cachedRead(file);
+                if (!isExportedCalendar(content)) {
+                    events.push(...parseIcsCalendar(content, file.basename));
+                }
+            } catch (error) {
+                console.error(`Could not read calendar events from ${file.path}:`, error);
+            }
+        }
+        this.events = events;
+        this.occurrencesByYear.clear();
+    }
+
+    /**
+     * Whether a change to this path can change the loaded events
+     */
+    public isSourcePath(path: string): boolean {
+        const folder = this.getSourceFolder();
+        return folder !== null && path.toLowerCase().endsWith('.ics') && (folder === '' || path.startsWith(`${folder}/`));
+    }
+
+    public getEvents(): IcsEvent[] {
+        return this.events;
+    }
+
+    public getOccurrencesForDate(gy: number, gm: number, gd: number): IcsOccurrence[] {
+        let days = this.occurrencesByYear.get(gy);
+        if (!days) {
+            days = this.expandYear(gy);
+            this.occurrencesByYear.set(gy, days);
+        }
+        return days.get(`${gy}-${gm}-${gd}`) ?? [];
+    }
+
+    private expandYear(year: number): Map<string, IcsOccurrence[]> {
+        const rangeStart = new Date(year, 0, 1).getTime();
+        const rangeEnd = new Date(year + 1, 0, 1).getTime();
+        const days: Map<string, IcsOccurrence[]> = new Map();
+        this.events.forEach(event => {
+            expandIcsEvent(event, rangeStart, rangeEnd).forEach(occurrence => {
+                // A multi-day event is listed on every local day it covers
+                const lastMoment = Math.max(occurrence.start, occurrence.end - 1);
+                const day = new Date(occurrence.start);
+                day.setHours(0, 0, 0, 0);
+                while (day.getTime() <= lastMoment) {
+                    const key = localDayKey(day.getTime());
+                    days.set(key, [...(days.get(key) ?? []), occurrence]);
+                    day.setDate(day.getDate() + 1);
+                }
+            });
+        });
+        days.forEach(occurrences => occurrences.sort((a, b) => Number(!a.event.allDay) - Number(!b.event.allDay) || a.start - b.start));
+        return days;
+    }
+
+    // null when no folder is configured, '' for the vault root
+    private getSourceFolder(): string | null {
+        const folder = this.plugin.settings.icsFolderPath.trim();
+        return folder ? folder.replace(/^\/+|\/+$/g, '') : null;
+    }
+
+    private getSourceFiles() {
+        return this.plugin.app.vault.getFiles().filter(file => this.isSourcePath(file.path));
+    }
+}
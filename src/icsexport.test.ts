@@ -0,0 +1,65 @@
+import { DEFAULT_SETTINGS } from './settings';
+import { buildIcsCalendar, collectYearEvents } from './icsexport';
+import { parseIcsCalendar, unfoldIcsLines } from './ics';
+
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+describe('collectYearEvents', () => {
+    const events = collectYearEvents(1402, DEFAULT_SETTINGS, [
+        { title: 'Team day', calendar: 'gregorian', month: 9, day: 1, holiday: true, category: 'Team' },
+        { title: 'تولد سارا', calendar: 'jalali', month: 6, day: 15, holiday: false },
+    ]);
+    const find = (title: string) => events.filter(event => event.title === title);
+
+    test('places Jalaali, Gregorian and custom events on their Gregorian days', () => {
+        expect(find('آغاز عید نوروز')).toEqual([{ gregorian: { gy: 2023, gm: 3, gd: 21 }, title: 'آغاز عید نوروز', holiday: true, category: 'تقویم رسمی' }]);
+        expect(find('ولادت حضرت عیسی مسیح (ع)')).toEqual([{ gregorian: { gy: 2023, gm: 12, gd: 25 }, title: 'ولادت حضرت عیسی مسیح (ع)', holiday: false, category: 'میلادی' }]);
+        expect(find('Team day')).toEqual([{ gregorian: { gy: 2023, gm: 9, gd: 1 }, title: 'Team day', holiday: true, category: 'Team' }]);
+        expect(find('تولد سارا')[0]).toMatchObject({ gregorian: { gy: 2023, gm: 9, gd: 6 }, category: 'شخصی' });
+    });
+
+    test('resolves Hijri events with the Iranian Hijri calendar', () => {
+        // 1 Muharram 1445 fell on 1402-04-28 in Iran, so Ashura was on 1402-05-06
+        expect(find('عاشورای حسینی')).toEqual([{ gregorian: { gy: 2023, gm: 7, gd: 28 }, title: 'عاشورای حسینی', holiday: true, category: 'شیعی' }]);
+    });
+
+    test('covers Esfand 30 in leap years only', () => {
+        const custom = [{ title: 'Last day', calendar: 'jalali' as const, month: 12, day: 30, holiday: false }];
+        expect(collectYearEvents(1403, DEFAULT_SETTINGS, custom).filter(event => event.title === 'Last day')).toHaveLength(1);
+        expect(collectYearEvents(1402, DEFAULT_SETTINGS, custom).filter(event => event.title === 'Last day')).toHaveLength(0);
+    });
+});
+
+describe('buildIcsCalendar', () => {
+    const content = buildIcsCalendar('تقویم ایران 1403', [
+        { gregorian: { gy: 2024, gm: 3, gd: 20 }, title: 'آغاز عید نوروز', holiday: true, category: 'تقویم رسمی' },
+        { gregorian: { gy: 2024, gm: 12, gd: 31 }, title: 'Year end, party; all day', holiday: false, category: 'Team' },
+    ], new Date(Date.UTC(2024, 0, 2, 3, 4, 5)));
+
+    test('writes folded CRLF lines of at most 75 octets', () => {
+        const lines = content.split('\r\n');
+        expect(lines[lines.length - 1]).toBe('');
+        lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    });
+
+    test('writes all-day events with categories and busy holidays', () => {
+        const lines = unfoldIcsLines(content);
+        expect(lines).toContain('DTSTAMP:20240102T030405Z');
+        expect(lines).toContain('DTSTART;VALUE=DATE:20240320');
+        expect(lines).toContain('DTEND;VALUE=DATE:20240321');
+        expect(lines).toContain('CATEGORIES:تقویم رسمی,تعطیل رسمی');
+        expect(lines).toContain('TRANSP:OPAQUE');
+        expect(lines).toContain('DTEND;VALUE=DATE:20250101');
+        expect(lines).toContain('SUMMARY:Year end\\, party\\; all day');
+        expect(lines).toContain('TRANSP:TRANSPARENT');
+    });
+
+    test('can be read back by the importer', () => {
+        const events = parseIcsCalendar(content, 'fallback');
+        expect(events.map(event => [event.summary, event.calendarName, event.allDay, event.duration])).toEqual([
+            ['آغاز عید نوروز', 'تقویم ایران 1403', true, 1],
+            ['Year end, party; all day', 'تقویم ایران 1403', true, 1],
+        ]);
+        expect(events[0].uid).toMatch(/^20240320-\w+@persian-calendar$/);
+    });
+});
@@ -0,0 +1,100 @@
+import * as jalaali from 'jalaali-js';
+import type { PluginSettings, HolidayEvent } from './settings';
+import { PersianCalendarHolidays, HijriCalendarHolidays, GregorianCalendarHolidays } from './holidays';
+import { getHijriDate } from './hijri';
+import { CustomEvent, customEventMatchesDate } from './customevents';
+import { EXPORT_PRODID, escapeIcsText, foldIcsLine, formatIcsDate } from './ics';
+
+/**
+ * One day of the exported calendar, already resolved to its Gregorian date
+ */
+export interface ExportedEvent {
+    gregorian: { gy: number, gm: number, gd: number };
+    title: string;
+    holiday: boolean;
+    category: string;
+}
+
+const SOURCE_CATEGORIES: { [type: string]: string } = {
+    'Iran': 'تقویم رسمی',
+    'Ancient Iran': 'ایران باستان',
+    'Islamic Iran': 'شیعی',
+    'Global': 'میلادی',
+};
+
+/**
+ * Every built-in and custom event of a Jalaali year. Hijri events are placed with the
+ * configured Hijri calendar and adjustment, so they land on the same days as in the view.
+ */
+export function collectYearEvents(jy: number, settings: PluginSettings, customEvents: CustomEvent[] = []): ExportedEvent[] {
+    const events: ExportedEvent[] = [];
+    const yearLength = jalaali.isLeapJalaaliYear(jy) ? 366 : 365;
+    let jm = 1;
+    let jd = 1;
+
+    for (let i = 0; i < yearLength; i++) {
+        const gregorian = jalaali.toGregorian(jy, jm, jd);
+        const hijri = getHijriDate({ jy, jm, jd }, settings.hijriCalendarType, settings.hijriDateAdjustment);
+        const add = (holidays: HolidayEvent[], month: number, day: number) => {
+            holidays.filter(event => event.month === month && event.day === day).forEach(event => {
+                events.push({ gregorian, title: event.title, holiday: event.holiday, category: SOURCE_CATEGORIES[event.type] ?? event.type });
+            });
+        };
+        add(PersianCalendarHolidays, jm, jd);
+        add(HijriCalendarHolidays, hijri.hm, hijri.hd);
+        add(GregorianCalendarHolidays, gregorian.gm, gregorian.gd);
+
+        customEvents.filter(event => customEventMatchesDate(event, { jalaali: { jy, jm, jd }, gregorian, hijri })).forEach(event => {
+            events.push({ gregorian, title: event.title, holiday: event.holiday, category: event.category ?? 'شخصی' });
+        });
+
+        jd++;
+        if (jd > jalaali.jalaaliMonthLength(jy, jm)) {
+            jd = 1;
+            jm++;
+        }
+    }
+    return events;
+}
+
+// Small stable hash, so re-exporting a year keeps the UIDs other calendars already know
+function hashString(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+    }
+    return hash.toString(36);
+}
+
+/**
+ * Write the events as an iCalendar file of all-day events. Official holidays are opaque
+ * (busy) and get an extra category, other events are transparent.
+ */
+export function buildIcsCalendar(calendarName: string, events: ExportedEvent[], now: Date = new Date()): string {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${EXPORT_PRODID}`,
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ];
+    events.forEach(event => {
+        const { gy, gm, gd } = event.gregorian;
+        const nextDay = new Date(Date.UTC(gy, gm - 1, gd + 1));
+        const categories = event.holiday ? [event.category, 'تعطیل رسمی'] : [event.category];
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${formatIcsDate(gy, gm, gd)}-${hashString(`${event.category}|${event.title}`)}@persian-calendar`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatIcsDate(gy, gm, gd)}`,
+            `DTEND;VALUE=DATE:${formatIcsDate(nextDay.getUTCFullYear(), nextDay.getUTCMonth() + 1, nextDay.getUTCDate())}`,
+            `SUMMARY:${escapeIcsText(event.title)}`,
+            `CATEGORIES:${categories.map(escapeIcsText).join(',')}`,
+            `TRANSP:${event.holiday ? 'OPAQUE' : 'TRANSPARENT'}`,
+            'END:VEVENT',
+        );
+    });
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -1,13 +1,26 @@
 /* eslint-disable no-useless-escape */
-import { Notice, Plugin, TFile ,MarkdownView, TAbstractFile ,Editor, WorkspaceLeaf} from 'obsidian';
+import { Notice, Plugin, TFile ,MarkdownView, TAbstractFile ,Editor, WorkspaceLeaf, parseYaml, TFolder} from 'obsidian';
 import PersianCalendarView from './view';
-import { PluginSettings, DEFAULT_SETTINGS } from './settings';
+import PersianYearView from './yearview';
+import { PluginSettings, DEFAULT_SETTINGS, JalaaliDate } from './settings';
 import { toJalaali , toGregorian } from 'jalaali-js';
 import moment from 'moment-jalaali';
 import DateSuggester from './suggester';
 import PersianPlaceholders from './placeholder';
 import UpdateModal from './updatemodal';
 import PersianCalendarSettingTab from './settingstab';
+import PeriodicNoteIndex from './noteindex';
+import CustomEventStore from './customevents';
+import AnniversarySource from './anniversaries';
+import IcsCalendarStore from './ics';
+import { collectYearEvents, buildIcsCalendar } from './icsexport';
+import JalaaliYearModal from './yearmodal';
+import ConfirmModal from './confirmmodal';
+import FolderModal from './foldermodal';
+import PersianCalendarApi from './api';
+import type { PeriodicNoteKind } from './noteindex';
+import { getPeriodicNotePath } from './periodicnotes';
+import { extractFolderPath } from './dateformat';
 
 //Authored by Hossein Maleknejad, for support and development ideas, follow Karfekr Telegram at https://t.me/karfekr
 //I know this repository has lots of duplicate codes and must be cleaned. I will clean it in next releases. 
@@ -23,6 +36,14 @@ export default class PersianCalendarPlugin extends Plugin {
     pluginsettingstab: PersianCalendarSettingTab | undefined;
     plugin: PersianCalendarPlugin = this;
     view: PersianCalendarView | undefined;
+    noteIndex: PeriodicNoteIndex = new PeriodicNoteIndex(this);
+    customEvents: CustomEventStore = new CustomEventStore(this, parseYaml);
+    anniversaries: AnniversarySource = new AnniversarySource(this);
+    icsCalendars: IcsCalendarStore = new IcsCalendarStore(this);
+    api: PersianCalendarApi = new PersianCalendarApi(this);
+    // Paths createPeriodicNote is writing, which expands them itself, so the create listener
+    // leaves them alone
+    private creatingNotes: Set<string> = new Set();
 
 
 
@@ -34,6 +55,10 @@ export default class PersianCalendarPlugin extends Plugin {
             'persian-calendar',
             (leaf: WorkspaceLeaf) => (this.view = new PersianCalendarView(leaf, this.app, this.settings, this.plugin))
         );       
+        this.registerView(
+            'persian-calendar-year',
+            (leaf: WorkspaceLeaf) => new PersianYearView(leaf, this.app, this.settings, this.plugin)
+        );
         
         if (this.app.workspace.getLeavesOfType('persian-calendar').length === 0) {
             this.activateView();
@@ -54,32 +79,71 @@ export default class PersianCalendarPlugin extends Plugin {
         
         
 
-        this.registerEvent(this.app.vault.on('create', (file: TAbstractFile) => {
-            if (file instanceof TFile && file.path.endsWith('.md')) {
-                    this.handleFileUpdate(file, true);
-                    const fileCreationTime = file.stat.ctime;
-            const now = Date.now();
-            const timeDiff = now - fileCreationTime;
-
-            if (timeDiff < 10000) { 
-                if (this.placeholder) {
-                    this.placeholder.insertPersianDate(file);
+        this.app.workspace.onLayoutReady(() => {
+            this.reloadCustomEvents();
+            this.reloadIcsCalendars();
+
+            // While the vault loads it reports a create event for every existing file, which
+            // the loads above already cover
+            this.registerEvent(this.app.vault.on('create', (file: TAbstractFile) => {
+                this.handleEventSourceChange(file.path);
+                if (file instanceof TFile && file.path.endsWith('.md')) {
+                        this.handleFileUpdate(file, true);
+                        if (this.creatingNotes.delete(file.path)) {
+                            return;
+                        }
+                        const fileCreationTime = file.stat.ctime;
+                const now = Date.now();
+                const timeDiff = now - fileCreationTime;
+
+                if (timeDiff < 10000) { 
+                    if (this.placeholder) {
+                        this.placeholder.insertPersianDate(file);
+                    } else {
+                        console.error("Placeholder is not initialized");
+                    }
                 } else {
-                    console.error("Placeholder is not initialized");
+                    console.log("File is not newly created or too old for processing:", file.path);
                 }
-            } else {
-                console.log("File is not newly created or too old for processing:", file.path);
+                } 
+            }));
+        });
+
+
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+            if (this.anniversaries.updateFile(file.path)) {
+                this.refreshViews();
             }
-            } 
         }));
 
-
         this.registerEvent(this.app.vault.on('delete', (file) => {
+            this.handleEventSourceChange(file.path);
+            if (this.anniversaries.removeFile(file.path)) {
+                this.refreshViews();
+            }
             if (file instanceof TFile && file.path.endsWith('.md')) {
                 this.handleFileUpdate(file, false);
             }
         }));
 
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            this.handleEventSourceChange(file.path);
+            if (file instanceof TFile && file.path.endsWith('.md')) {
+                this.placeholder?.handleFileModify(file);
+            }
+        }));
+
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.handleEventSourceChange(file.path, oldPath);
+            if (this.anniversaries.renameFile(oldPath, file.path)) {
+                this.refreshViews();
+            }
+            // A note renamed away from .md still has to leave the calendar
+            if (file instanceof TFile && (file.path.endsWith('.md') || oldPath.endsWith('.md'))) {
+                this.handleFileUpdate(file, true, oldPath);
+            }
+        }));
+
 
         this.addSettingTab(new PersianCalendarSettingTab(this.app, this));
         this.addCommand({
@@ -123,6 +187,22 @@ export default class PersianCalendarPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'open-persian-year-view',
+            name: 'Year Overview - باز کردن نمای سالانه تقویم',
+            callback: async () => {
+                await this.activateYearView();
+            },
+        });
+
+        this.addCommand({
+            id: 'export-holidays-ics',
+            name: 'Export ICS - خروجی ICS تقویم رسمی و رویدادهای شخصی یک سال',
+            callback: () => {
+                new JalaaliYearModal(this.app, (year) => this.exportYearCalendar(year)).open();
+            },
+        });
+
         this.addCommand({
             id: 'open-this-weeks-note',
             name: 'Weekly - باز کردن هفته‌نوشت این هفته',
@@ -225,6 +305,38 @@ export default class PersianCalendarPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'expand-placeholders-current-note',
+            name: 'Expand Placeholders - جایگزینی عبارت‌های معنادار در یادداشت جاری',
+            editorCheckCallback: (checking, editor, view) => {
+                const file = view.file;
+                if (!file || !this.placeholder || !(view instanceof MarkdownView)) {
+                    return false;
+                }
+                if (!checking) {
+                    this.expandPlaceholdersInNote(view, file);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'expand-placeholders-in-folder',
+            name: 'Expand Placeholders in Folder - جایگزینی عبارت‌های معنادار در یادداشت‌های یک پوشه',
+            callback: () => {
+                new FolderModal(this.app, (folder) => this.expandPlaceholdersInFolder(folder)).open();
+            }
+        });
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (file instanceof TFolder) {
+                menu.addItem(item => item
+                    .setTitle('جایگزینی عبارت‌های معنادار')
+                    .setIcon('calendar-clock')
+                    .onClick(() => this.expandPlaceholdersInFolder(file)));
+            }
+        }));
+
         const openNoteForDate = (year: number, month: number, dayNumber: number) => {
             const leaf = this.app.workspace.getLeavesOfType('persian-calendar')[0];
             if (leaf) {
@@ -261,6 +373,30 @@ export default class PersianCalendarPlugin extends Plugin {
     }
 
 
+    private async expandPlaceholdersInNote(view: MarkdownView, file: TFile): Promise<void> {
+        if (!this.placeholder) {
+            return;
+        }
+        // The frontmatter is written through the file, so unsaved edits have to be saved first
+        await view.save();
+        if (!await this.placeholder.expandPlaceholdersInFile(file)) {
+            new Notice('عبارت معناداری برای جایگزینی پیدا نشد.');
+        }
+    }
+
+    public async expandPlaceholdersInFolder(folder: TFolder): Promise<void> {
+        if (!this.placeholder) {
+            return;
+        }
+        try {
+            const changed = await this.placeholder.expandPlaceholdersInFolder(folder);
+            new Notice(`عبارت‌های معنادار در ${changed} یادداشت جایگزین شدند.`);
+        } catch (error) {
+            console.error('Error expanding placeholders in folder:', error);
+            new Notice('خطا در جایگزینی عبارت‌های معنادار');
+        }
+    }
+
     private announceUpdate(): void {
         const currentVersion = this.manifest.version;
         const knownVersion = this.settings.version;
@@ -282,13 +418,131 @@ export default class PersianCalendarPlugin extends Plugin {
         await this.saveData(this.settings);
     }
     
-    private async handleFileUpdate(file: TFile, isCreation: boolean): Promise<void> {
+    private async handleFileUpdate(file: TFile, isCreation: boolean, oldPath?: string): Promise<void> {
+        let isPeriodicNote: boolean;
+        if (oldPath !== undefined) {
+            // Renames and moves: the old path leaves the index, the new path joins it
+            isPeriodicNote = this.noteIndex.renameFile(oldPath, file.path);
+        } else {
+            isPeriodicNote = isCreation ? this.noteIndex.addFile(file.path) : this.noteIndex.removeFile(file.path);
+        }
+        if (!isPeriodicNote) {
+            return;
+        }
         const view = this.app.workspace.getLeavesOfType('persian-calendar')[0]?.view;
         if (view instanceof PersianCalendarView) {
             view.refreshCalendarDots(file, isCreation);
         }
+        this.app.workspace.getLeavesOfType('persian-calendar-year').forEach(leaf => {
+            if (leaf.view instanceof PersianYearView) {
+                leaf.view.refreshCalendarDots(file, isCreation);
+            }
+        });
+    }
+
+
+    private handleEventSourceChange(path: string, oldPath?: string): void {
+        if (this.customEvents.isSourcePath(path) || (oldPath !== undefined && this.customEvents.isSourcePath(oldPath))) {
+            this.reloadCustomEvents();
+        }
+        if (this.icsCalendars.isSourcePath(path) || (oldPath !== undefined && this.icsCalendars.isSourcePath(oldPath))) {
+            this.reloadIcsCalendars();
+        }
+    }
+
+    async reloadCustomEvents(): Promise<void> {
+        await this.customEvents.load();
+        this.refreshViews();
+    }
+
+    async reloadIcsCalendars(): Promise<void> {
+        await this.icsCalendars.load();
+        this.refreshViews();
+    }
+
+    async exportYearCalendar(jy: number): Promise<void> {
+        const path = `Persian Calendar ${jy}.ics`;
+        const existingFile = this.app.vault.getAbstractFileByPath(path);
+        if (existingFile instanceof TFile) {
+            new ConfirmModal(this.app, `فایل ${path} از قبل وجود دارد. جایگزین شود؟`, 'جایگزینی', () => {
+                this.writeYearCalendar(jy, path, existingFile);
+            }).open();
+        } else {
+            await this.writeYearCalendar(jy, path, null);
+        }
     }
 
+    private async writeYearCalendar(jy: number, path: string, existingFile: TFile | null): Promise<void> {
+        try {
+            const events = collectYearEvents(jy, this.settings, this.customEvents.getEvents());
+            const content = buildIcsCalendar(`تقویم ایران ${jy}`, events);
+            if (existingFile) {
+                await this.app.vault.modify(existingFile, content);
+            } else {
+                await this.app.vault.create(path, content);
+            }
+            new Notice(`تقویم سال ${jy} با ${events.length} رویداد در ${path} ذخیره شد.`);
+        } catch (error) {
+            console.error('Error exporting calendar:', error);
+            new Notice('خطا در ساخت فایل ICS');
+        }
+    }
+
+    /**
+     * Open the periodic note of a kind containing a Jalaali day, creating it from its
+     * template first when it does not exist. Returns null when the path is taken by a folder.
+     */
+    public async openPeriodicNote(kind: PeriodicNoteKind, date: JalaaliDate): Promise<TFile | null> {
+        const path = getPeriodicNotePath(this.settings, kind, date);
+        let file = this.app.vault.getAbstractFileByPath(path);
+        if (!file) {
+            file = await this.createPeriodicNote(kind, path);
+        }
+        if (!(file instanceof TFile)) {
+            return null;
+        }
+        const note = file;
+        const openLeaf = this.app.workspace.getLeavesOfType('markdown').find(leaf => leaf.view instanceof MarkdownView && leaf.view.file === note);
+        if (openLeaf) {
+            this.app.workspace.setActiveLeaf(openLeaf, { focus: true });
+        } else {
+            await this.app.workspace.openLinkText(note.path, '', false);
+        }
+        return note;
+    }
+
+    /**
+     * Write a new periodic note from its template with its placeholders, frontmatter
+     * included, already expanded, add the configured date properties and tell the API subscribers
+     */
+    public async createPeriodicNote(kind: PeriodicNoteKind, filePath: string): Promise<TFile> {
+        const folderPath = extractFolderPath(filePath);
+        if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+        const templates: { [kind in PeriodicNoteKind]: string } = {
+            daily: this.settings.dailyNoteTemplate,
+            weekly: this.settings.weeklyNoteTemplate,
+            monthly: this.settings.monthlyNoteTemplate,
+            quarterly: this.settings.quarterlyNoteTemplate,
+            yearly: this.settings.yearlyNoteTemplate,
+        };
+        const content = this.placeholder ? await this.placeholder.renderTemplate(templates[kind], filePath) : '';
+        this.creatingNotes.add(filePath);
+        let file: TFile;
+        try {
+            file = await this.app.vault.create(filePath, content);
+        } catch (error) {
+            this.creatingNotes.delete(filePath);
+            throw error;
+        }
+        // renderTemplate only quotes the frontmatter placeholders, they are expanded here
+        // instead of waiting for the create event
+        await this.placeholder?.expandFrontmatterPlaceholders(file);
+        await this.placeholder?.addDateProperties(file);
+        this.api.trigger('note-created', { file, kind, date: this.placeholder?.getPeriodicNoteDate(file.path) ?? null });
+        return file;
+    }
 
     private calculateCurrentWeekNumber(jalaaliDate: {jy: number, jm: number, jd: number}): number {
         moment.loadPersian({usePersianDigits: false, dialect: 'persian-modern'});    
@@ -305,20 +559,34 @@ export default class PersianCalendarPlugin extends Plugin {
         this.app.workspace.revealLeaf(leaf); // Ensure the leaf is visible
     }
 
+    async activateYearView() {
+        const existingLeaf = this.app.workspace.getLeavesOfType('persian-calendar-year')[0];
+        const leaf = existingLeaf ?? this.app.workspace.getLeaf(true); // The year overview needs the full width of the main area
+        if (!existingLeaf) {
+            await leaf.setViewState({
+                type: 'persian-calendar-year',
+                active: true
+            });
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
     refreshViews() {
-        if (this.app.workspace.getLeavesOfType('persian-calendar').length > 0) {
-            this.app.workspace.getLeavesOfType('persian-calendar').forEach(leaf => {
+        ['persian-calendar', 'persian-calendar-year'].forEach(viewType => {
+            this.app.workspace.getLeavesOfType(viewType).forEach(leaf => {
                 if (leaf.view instanceof PersianCalendarView) {
                     leaf.view.render(); 
                 }
             });
-        }
+        });
     }
 
     onunload(): void {
-        this.app.workspace
-            .getLeavesOfType('persian-calendar')
-            .forEach((leaf) => leaf.detach());
+        ['persian-calendar', 'persian-calendar-year'].forEach(viewType => {
+            this.app.workspace
+                .getLeavesOfType(viewType)
+                .forEach((leaf) => leaf.detach());
+        });
     }
     
 }
\ No newline at end of file
@@ -0,0 +1,203 @@
+/**
+ * Tests for the periodic note index
+ */
+
+import PeriodicNoteIndex from './noteindex';
+import type PersianCalendarPlugin from './main';
+import { DEFAULT_SETTINGS, PluginSettings } from './settings';
+
+jest.mock('moment-jalaali', () => ({
+  __esModule: true,
+  default: jest.requireActual('moment-jalaali'),
+}));
+
+const createIndex = (paths: string[], overrides: Partial<PluginSettings> = {}) => {
+  const files = paths.map(path => ({ path }));
+  const plugin = {
+    settings: { ...DEFAULT_SETTINGS, ...overrides },
+    app: { vault: { getFiles: jest.fn(() => files) } },
+  };
+  const index = new PeriodicNoteIndex(plugin as unknown as PersianCalendarPlugin);
+  return { index, files, plugin };
+};
+
+describe('PeriodicNoteIndex', () => {
+  test('answers queries for every note kind from one vault scan', () => {
+    const { index, plugin } = createIndex([
+      '1403-05-01.md',
+      '1403-05-17.md',
+      '1403-06-01.md',
+      '1403-W12.md',
+      '1403-W30.md',
+      '1403-05.md',
+      '1403-Q2.md',
+      '1403.md',
+      'projects/random.md',
+    ]);
+
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1, 17]);
+    expect(index.getDaysWithNotes(1403, 6)).toEqual([1]);
+    expect(index.getDaysWithNotes(1403, 7)).toEqual([]);
+    expect(index.getWeeksWithNotes(1403)).toEqual([12, 30]);
+    expect(index.getMonthsWithNotes(1403)).toEqual([5]);
+    expect(index.getQuartersWithNotes(1403)).toEqual([2]);
+    expect(index.hasYearlyNote(1403)).toBe(true);
+    expect(index.hasYearlyNote(1402)).toBe(false);
+    expect(plugin.app.vault.getFiles).toHaveBeenCalledTimes(1);
+  });
+
+  test('only indexes notes inside the configured folders and formats', () => {
+    const { index } = createIndex([
+      'journal/1403/05/1403-05-01.md',
+      '1403-05-02.md',
+      'journal/1403/05/notes.md',
+      'journal/1403/05/1403-05-03.canvas',
+    ], { dailyNotesFolderPath: 'journal', dailyNotesFormat: 'YYYY/MM/YYYY-MM-DD' });
+
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+  });
+
+  test('maps Gregorian daily notes onto the Jalaali month', () => {
+    const { index } = createIndex(['2024-07-22.md', '2024-08-21.md'], { dateFormat: 'georgian' });
+
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1, 31]);
+  });
+
+  test('tracks created and deleted notes without rescanning the vault', () => {
+    const { index, plugin } = createIndex(['1403-05-01.md']);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+    expect(index.addFile('1403-05-02.md')).toBe(true);
+    expect(index.addFile('meeting.md')).toBe(false);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1, 2]);
+
+    expect(index.removeFile('1403-05-01.md')).toBe(true);
+    expect(index.removeFile('meeting.md')).toBe(false);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([2]);
+    expect(plugin.app.vault.getFiles).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps a day marked while another note still points at it', () => {
+    const { index } = createIndex(['1403-05-01.md', '1403-5-1.md']);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+    index.removeFile('1403-05-01.md');
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+    index.removeFile('1403-5-1.md');
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([]);
+  });
+
+  test('counts a note reported again after the vault scan only once', () => {
+    const { index } = createIndex(['1403-05-01.md']);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+    index.addFile('1403-05-01.md');
+    index.addFile('1403-05-01.md');
+    index.removeFile('1403-05-01.md');
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([]);
+  });
+
+  test('classifies paths of notes that do not exist yet with nested and named formats', () => {
+    const { index } = createIndex([], {
+      dailyNotesFolderPath: 'Journal',
+      dailyNotesFormat: 'YYYY/MM/YYYY-MM-DD',
+      monthlyNotesFolderPath: 'Months',
+      monthlyNotesFormat: 'YYYY/MMMM YYYY',
+    });
+
+    expect(index.classifyPath('Journal/1403/05/1403-05-11.md')).toEqual([{ kind: 'daily', bucket: '1403-5', value: 11 }]);
+    expect(index.classifyPath('Months/1403/مرداد 1403.md')).toEqual([{ kind: 'monthly', bucket: '1403', value: 5 }]);
+    expect(index.classifyPath('Journal/1403/05/meeting.md')).toEqual([]);
+    expect(index.getEntries('Journal/1403/05/1403-05-11.md')).toEqual([]);
+  });
+
+  test('rebuilds itself when the folder or format settings change', () => {
+    const { index, plugin } = createIndex(['daily/1403-05-01.md', '1403-05-02.md']);
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([2]);
+
+    plugin.settings.dailyNotesFolderPath = 'daily';
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+    expect(plugin.app.vault.getFiles).toHaveBeenCalledTimes(2);
+  });
+
+  test('ignores vault events until the index has been built', () => {
+    const { index, files, plugin } = createIndex([]);
+
+    expect(index.addFile('1403-05-01.md')).toBe(false);
+    files.push({ path: '1403-05-01.md' });
+    expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+    expect(plugin.app.vault.getFiles).toHaveBeenCalledTimes(1);
+  });
+
+  describe('renames and moves', () => {
+    const folders: Partial<PluginSettings> = {
+      dailyNotesFolderPath: 'daily',
+      weeklyNotesFolderPath: 'weekly',
+      monthlyNotesFolderPath: 'monthly',
+      quarterlyNotesFolderPath: 'quarterly',
+      yearlyNotesFolderPath: 'yearly',
+    };
+
+    test('moves a daily note to its new date', () => {
+      const { index } = createIndex(['daily/1403-05-01.md'], folders);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+      expect(index.renameFile('daily/1403-05-01.md', 'daily/1403-06-10.md')).toBe(true);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([]);
+      expect(index.getDaysWithNotes(1403, 6)).toEqual([10]);
+      expect(index.getEntries('daily/1403-05-01.md')).toEqual([]);
+      expect(index.getEntries('daily/1403-06-10.md')).toEqual([{ kind: 'daily', bucket: '1403-6', value: 10 }]);
+    });
+
+    test('moves notes into and out of the daily notes folder', () => {
+      const { index } = createIndex(['inbox/1403-05-01.md', 'daily/1403-05-02.md'], folders);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([2]);
+
+      expect(index.renameFile('inbox/1403-05-01.md', 'daily/1403-05-01.md')).toBe(true);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1, 2]);
+
+      expect(index.renameFile('daily/1403-05-02.md', 'archive/1403-05-02.md')).toBe(true);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+    });
+
+    test('tracks renames of weekly, monthly, quarterly and yearly notes', () => {
+      const { index } = createIndex([
+        'weekly/1403-W12.md',
+        'monthly/1403-05.md',
+        'quarterly/1403-Q2.md',
+        'yearly/1403.md',
+      ], folders);
+      expect(index.getWeeksWithNotes(1403)).toEqual([12]);
+
+      index.renameFile('weekly/1403-W12.md', 'weekly/1403-W13.md');
+      index.renameFile('monthly/1403-05.md', 'monthly/1403-07.md');
+      index.renameFile('quarterly/1403-Q2.md', 'quarterly/1403-Q3.md');
+      index.renameFile('yearly/1403.md', 'yearly/1404.md');
+
+      expect(index.getWeeksWithNotes(1403)).toEqual([13]);
+      expect(index.getMonthsWithNotes(1403)).toEqual([7]);
+      expect(index.getQuartersWithNotes(1403)).toEqual([3]);
+      expect(index.hasYearlyNote(1403)).toBe(false);
+      expect(index.hasYearlyNote(1404)).toBe(true);
+    });
+
+    test('drops a note renamed to something that is not a periodic note', () => {
+      const { index } = createIndex(['daily/1403-05-01.md'], folders);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+      expect(index.renameFile('daily/1403-05-01.md', 'daily/meeting.md')).toBe(true);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([]);
+
+      expect(index.renameFile('daily/meeting.md', 'daily/1403-05-01.txt')).toBe(false);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([]);
+    });
+
+    test('reports renames that do not involve periodic notes', () => {
+      const { index } = createIndex(['daily/1403-05-01.md', 'notes/a.md'], folders);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+
+      expect(index.renameFile('notes/a.md', 'notes/b.md')).toBe(false);
+      expect(index.getDaysWithNotes(1403, 5)).toEqual([1]);
+    });
+  });
+});
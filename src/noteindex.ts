@@ -0,0 +1,218 @@
+import { toJalaali } from 'jalaali-js';
+import type PersianCalendarPlugin from './main';
+import type { PluginSettings } from './settings';
+import { extractDateFromPath } from './dateformat';
+
+export type PeriodicNoteKind = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Where one indexed note sits in the calendar. All keys are Jalaali, except
+ * weekly notes which keep the year written in the note name.
+ */
+export interface PeriodicNoteEntry {
+    kind: PeriodicNoteKind;
+    bucket: string;
+    value: number;
+}
+
+/**
+ * Index of the periodic notes in the vault, built once by scanning the vault
+ * and then kept up to date from vault events, so the calendar can ask which
+ * days of a month have notes without parsing every file path on each render.
+ */
+export default class PeriodicNoteIndex {
+    plugin: PersianCalendarPlugin;
+    // bucket key -> value -> number of notes for that value
+    private buckets: Map<string, Map<number, number>> = new Map();
+    private entriesByPath: Map<string, PeriodicNoteEntry[]> = new Map();
+    private builtFor: string | null = null;
+
+    constructor(plugin: PersianCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Rebuild the index from scratch by scanning every markdown file of the vault
+     */
+    public build(): void {
+        this.buckets.clear();
+        this.entriesByPath.clear();
+        this.builtFor = this.getSettingsKey();
+        this.plugin.app.vault.getFiles().forEach(file => this.insert(file.path));
+    }
+
+    /**
+     * Add a newly created file. Returns true if it is a periodic note.
+     */
+    public addFile(path: string): boolean {
+        if (!this.isBuilt()) {
+            // The first query will scan the vault anyway
+            return false;
+        }
+        return this.insert(path);
+    }
+
+    /**
+     * Remove a deleted file. Returns true if it was a periodic note.
+     */
+    public removeFile(path: string): boolean {
+        if (!this.isBuilt()) {
+            return false;
+        }
+        return this.delete(path);
+    }
+
+    /**
+     * Move a file from one path to another. Returns true if either path is a periodic note.
+     */
+    public renameFile(oldPath: string, newPath: string): boolean {
+        const removed = this.removeFile(oldPath);
+        const added = this.addFile(newPath);
+        return removed || added;
+    }
+
+    public getEntries(path: string): PeriodicNoteEntry[] {
+        this.ensureFresh();
+        return this.entriesByPath.get(path) ?? [];
+    }
+
+    /**
+     * Where a note at a path would sit in the calendar with the current folder and format
+     * settings, whether or not it exists, e.g. for a note that is about to be created
+     */
+    public classifyPath(path: string): PeriodicNoteEntry[] {
+        return path.endsWith('.md') ? this.classify(path) : [];
+    }
+
+    public getDaysWithNotes(jy: number, jm: number): number[] {
+        return this.getValues('daily', `${jy}-${jm}`);
+    }
+
+    public getWeeksWithNotes(year: number): number[] {
+        return this.getValues('weekly', `${year}`);
+    }
+
+    public getMonthsWithNotes(jy: number): number[] {
+        return this.getValues('monthly', `${jy}`);
+    }
+
+    public getQuartersWithNotes(jy: number): number[] {
+        return this.getValues('quarterly', `${jy}`);
+    }
+
+    public hasYearlyNote(jy: number): boolean {
+        return this.getValues('yearly', '').includes(jy);
+    }
+
+    private getValues(kind: PeriodicNoteKind, bucket: string): number[] {
+        this.ensureFresh();
+        const values = this.buckets.get(this.bucketKey(kind, bucket));
+        return values ? Array.from(values.keys()).sort((a, b) => a - b) : [];
+    }
+
+    private isBuilt(): boolean {
+        return this.builtFor !== null && this.builtFor === this.getSettingsKey();
+    }
+
+    private ensureFresh(): void {
+        // Folder and format settings decide what counts as a periodic note
+        if (!this.isBuilt()) {
+            this.build();
+        }
+    }
+
+    private insert(path: string): boolean {
+        if (!path.endsWith('.md')) {
+            return false;
+        }
+        // The vault also reports files the first scan already found, count each path once
+        this.delete(path);
+        const entries = this.classify(path);
+        if (entries.length === 0) {
+            return false;
+        }
+        this.entriesByPath.set(path, entries);
+        entries.forEach(entry => {
+            const key = this.bucketKey(entry.kind, entry.bucket);
+            let bucket = this.buckets.get(key);
+            if (!bucket) {
+                bucket = new Map();
+                this.buckets.set(key, bucket);
+            }
+            bucket.set(entry.value, (bucket.get(entry.value) ?? 0) + 1);
+        });
+        return true;
+    }
+
+    private delete(path: string): boolean {
+        const entries = this.entriesByPath.get(path);
+        if (!entries) {
+            return false;
+        }
+        this.entriesByPath.delete(path);
+        entries.forEach(entry => {
+            const bucket = this.buckets.get(this.bucketKey(entry.kind, entry.bucket));
+            const count = bucket?.get(entry.value) ?? 0;
+            if (count > 1) {
+                // Another note (e.g. both 1403-08-05 and 1403-8-5) still marks the same day
+                bucket?.set(entry.value, count - 1);
+            } else {
+                bucket?.delete(entry.value);
+            }
+        });
+        return true;
+    }
+
+    private classify(path: string): PeriodicNoteEntry[] {
+        const settings = this.plugin.settings;
+        const usePersian = settings.dateFormat === 'persian';
+        const entries: PeriodicNoteEntry[] = [];
+
+        const daily = extractDateFromPath(path, settings.dailyNotesFolderPath, settings.dailyNotesFormat, usePersian);
+        if (daily && daily.day) {
+            // Daily notes may be named in the Gregorian calendar, the grid is always Jalaali
+            const jalaali = usePersian
+                ? { jy: daily.year, jm: daily.month, jd: daily.day }
+                : toJalaali(daily.year, daily.month, daily.day);
+            entries.push({ kind: 'daily', bucket: `${jalaali.jy}-${jalaali.jm}`, value: jalaali.jd });
+        }
+
+        const weekly = extractDateFromPath(path, settings.weeklyNotesFolderPath, settings.weeklyNotesFormat, usePersian);
+        if (weekly && weekly.week) {
+            entries.push({ kind: 'weekly', bucket: `${weekly.year}`, value: weekly.week });
+        }
+
+        const monthly = extractDateFromPath(path, settings.monthlyNotesFolderPath, settings.monthlyNotesFormat, usePersian);
+        if (monthly && !monthly.day && !monthly.week && !monthly.quarter) {
+            entries.push({ kind: 'monthly', bucket: `${monthly.year}`, value: monthly.month });
+        }
+
+        const quarterly = extractDateFromPath(path, settings.quarterlyNotesFolderPath, settings.quarterlyNotesFormat, usePersian);
+        if (quarterly && quarterly.quarter) {
+            entries.push({ kind: 'quarterly', bucket: `${quarterly.year}`, value: quarterly.quarter });
+        }
+
+        const yearly = extractDateFromPath(path, settings.yearlyNotesFolderPath, settings.yearlyNotesFormat, usePersian);
+        if (yearly && !yearly.day && !yearly.week && !yearly.quarter) {
+            entries.push({ kind: 'yearly', bucket: '', value: yearly.year });
+        }
+
+        return entries;
+    }
+
+    private bucketKey(kind: PeriodicNoteKind, bucket: string): string {
+        return `${kind}:${bucket}`;
+    }
+
+    private getSettingsKey(): string {
+        const settings: PluginSettings = this.plugin.settings;
+        return JSON.stringify([
+            settings.dateFormat,
+            settings.dailyNotesFolderPath, settings.dailyNotesFormat,
+            settings.weeklyNotesFolderPath, settings.weeklyNotesFormat,
+            settings.monthlyNotesFolderPath, settings.monthlyNotesFormat,
+            settings.quarterlyNotesFolderPath, settings.quarterlyNotesFormat,
+            settings.yearlyNotesFolderPath, settings.yearlyNotesFormat,
+        ]);
+    }
+}
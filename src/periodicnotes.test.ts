@@ -0,0 +1,77 @@
+import { DEFAULT_SETTINGS, PluginSettings } from './settings';
+import { formatNoteLink, getDatePropertyValue, getJalaaliWeek, getPeriodicNoteEnd, getPeriodicNotePath } from './periodicnotes';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+// Thursday 1403-05-11, 2024-08-01
+const date = { jy: 1403, jm: 5, jd: 11 };
+
+describe('getPeriodicNotePath', () => {
+    const nested: PluginSettings = {
+        ...DEFAULT_SETTINGS,
+        dailyNotesFolderPath: 'Journal/',
+        dailyNotesFormat: 'YYYY/MM/YYYY-MM-DD',
+        weeklyNotesFolderPath: 'Journal/Weeks',
+        weeklyNotesFormat: 'YYYY/YYYY-[W]WW',
+        monthlyNotesFolderPath: '',
+        monthlyNotesFormat: 'YYYY/MM-MMMM',
+        quarterlyNotesFolderPath: 'Quarters',
+        quarterlyNotesFormat: 'YYYY-[Q]Q',
+        yearlyNotesFolderPath: 'Years',
+        yearlyNotesFormat: 'YYYY',
+    };
+
+    test('builds every kind of note from the folder and format settings', () => {
+        expect(getPeriodicNotePath(nested, 'daily', date)).toBe('Journal/1403/05/1403-05-11.md');
+        expect(getPeriodicNotePath(nested, 'weekly', date)).toBe(`Journal/Weeks/1403/1403-W${getJalaaliWeek(date)}.md`);
+        expect(getPeriodicNotePath(nested, 'monthly', date)).toBe('1403/05-مرداد.md');
+        expect(getPeriodicNotePath(nested, 'quarterly', date)).toBe('Quarters/1403-Q2.md');
+        expect(getPeriodicNotePath(nested, 'yearly', date)).toBe('Years/1403.md');
+    });
+
+    test('names daily notes in the Gregorian calendar when it is selected', () => {
+        const settings = { ...nested, dateFormat: 'georgian' };
+        expect(getPeriodicNotePath(settings, 'daily', date)).toBe('Journal/2024/08/2024-08-01.md');
+    });
+});
+
+describe('getPeriodicNoteEnd', () => {
+    test('finds the last day of each kind of note', () => {
+        expect(getPeriodicNoteEnd('daily', date)).toEqual(date);
+        expect(getPeriodicNoteEnd('weekly', { jy: 1403, jm: 5, jd: 6 })).toEqual({ jy: 1403, jm: 5, jd: 12 });
+        expect(getPeriodicNoteEnd('monthly', { jy: 1403, jm: 7, jd: 1 })).toEqual({ jy: 1403, jm: 7, jd: 30 });
+        expect(getPeriodicNoteEnd('quarterly', { jy: 1403, jm: 4, jd: 1 })).toEqual({ jy: 1403, jm: 6, jd: 31 });
+        expect(getPeriodicNoteEnd('yearly', { jy: 1403, jm: 1, jd: 1 })).toEqual({ jy: 1403, jm: 12, jd: 30 });
+    });
+});
+
+describe('getJalaaliWeek', () => {
+    test('starts weeks on Saturday', () => {
+        expect(getJalaaliWeek({ jy: 1403, jm: 5, jd: 13 })).toBe(getJalaaliWeek(date) + 1);
+        expect(getJalaaliWeek({ jy: 1403, jm: 5, jd: 12 })).toBe(getJalaaliWeek(date));
+    });
+});
+
+describe('formatNoteLink', () => {
+    test('links nested notes by path and shows their name', () => {
+        expect(formatNoteLink('Journal/1403/05/1403-05-11.md')).toBe('[[Journal/1403/05/1403-05-11|1403-05-11]]');
+        expect(formatNoteLink('1403-05-11.md')).toBe('[[1403-05-11]]');
+        expect(formatNoteLink('1403-05-11.md', 'دیروز')).toBe('[[1403-05-11|دیروز]]');
+    });
+});
+
+describe('getDatePropertyValue', () => {
+    test('writes the day in every calendar and its periods', () => {
+        const value = (name: string) => getDatePropertyValue(name, date, DEFAULT_SETTINGS);
+        expect(value('jalali')).toBe('1403-05-11');
+        expect(value('gregorian')).toBe('2024-08-01');
+        expect(value('hijri')).toBe('1446-01-26');
+        expect(value('weekday')).toBe('پنج‌شنبه');
+        expect(value('week')).toBe(`1403-W${getJalaaliWeek(date)}`);
+        expect(value('month')).toBe('1403-05');
+        expect(value('quarter')).toBe('1403-Q2');
+        expect(value('year')).toBe(1403);
+        expect(value('season')).toBeNull();
+    });
+});
@@ -0,0 +1,106 @@
+import moment from 'moment-jalaali';
+import { jalaaliMonthLength, toGregorian } from 'jalaali-js';
+import type { JalaaliDate, PluginSettings } from './settings';
+import type { PeriodicNoteKind } from './noteindex';
+import { generateNotePath, DateFormatComponents } from './dateformat';
+import { formatPlaceholderDate, shiftJalaaliDate } from './placeholdersyntax';
+
+/**
+ * Path of the daily, weekly, monthly, quarterly or yearly note containing a Jalaali day,
+ * built from the folder and format settings the same way the calendar view builds it.
+ * Only daily notes follow the Gregorian setting, the other notes are always Jalaali.
+ */
+export function getPeriodicNotePath(settings: PluginSettings, kind: PeriodicNoteKind, date: JalaaliDate): string {
+    const usePersian = settings.dateFormat === 'persian';
+    let components: DateFormatComponents;
+    switch (kind) {
+        case 'daily':
+            if (usePersian) {
+                components = { year: date.jy, month: date.jm, day: date.jd };
+            } else {
+                const { gy, gm, gd } = toGregorian(date.jy, date.jm, date.jd);
+                components = { year: gy, month: gm, day: gd };
+            }
+            return generateNotePath(settings.dailyNotesFolderPath, settings.dailyNotesFormat, components, usePersian);
+        case 'weekly':
+            return generateNotePath(settings.weeklyNotesFolderPath, settings.weeklyNotesFormat, { year: date.jy, month: 1, week: getJalaaliWeek(date) }, usePersian);
+        case 'monthly':
+            return generateNotePath(settings.monthlyNotesFolderPath, settings.monthlyNotesFormat, { year: date.jy, month: date.jm }, usePersian);
+        case 'quarterly': {
+            const quarter = Math.ceil(date.jm / 3);
+            components = { year: date.jy, month: (quarter - 1) * 3 + 1, quarter };
+            return generateNotePath(settings.quarterlyNotesFolderPath, settings.quarterlyNotesFormat, components, usePersian);
+        }
+        case 'yearly':
+            return generateNotePath(settings.yearlyNotesFolderPath, settings.yearlyNotesFormat, { year: date.jy, month: 1 }, usePersian);
+    }
+}
+
+/**
+ * Last day of the period of a periodic note, from its first day
+ */
+export function getPeriodicNoteEnd(kind: PeriodicNoteKind, start: JalaaliDate): JalaaliDate {
+    switch (kind) {
+        case 'daily':
+            return start;
+        case 'weekly':
+            return shiftJalaaliDate(start, [{ amount: 6, unit: 'day' }]);
+        case 'monthly':
+            return { jy: start.jy, jm: start.jm, jd: jalaaliMonthLength(start.jy, start.jm) };
+        case 'quarterly': {
+            const jm = Math.ceil(start.jm / 3) * 3;
+            return { jy: start.jy, jm, jd: jalaaliMonthLength(start.jy, jm) };
+        }
+        case 'yearly':
+            return { jy: start.jy, jm: 12, jd: jalaaliMonthLength(start.jy, 12) };
+    }
+}
+
+/**
+ * Week number of a Jalaali day, Saturday first, as shown in the calendar
+ */
+export function getJalaaliWeek(date: JalaaliDate): number {
+    moment.loadPersian({ usePersianDigits: false, dialect: 'persian-modern' });
+    return moment(`${date.jy}/${date.jm}/${date.jd}`, 'jYYYY/jM/jD').jWeek();
+}
+
+/**
+ * Wikilink to a note path. Notes inside folders are linked by their full path so the link
+ * stays unambiguous, and shown by their name unless another alias is given.
+ */
+export function formatNoteLink(path: string, alias?: string): string {
+    const target = path.replace(/\.md$/, '');
+    const name = target.split('/').pop() ?? target;
+    const label = alias ?? (name !== target ? name : undefined);
+    return label !== undefined && label !== target ? `[[${target}|${label}]]` : `[[${target}]]`;
+}
+
+export const DATE_PROPERTIES = ['jalali', 'gregorian', 'hijri', 'weekday', 'week', 'month', 'quarter', 'year'];
+
+/**
+ * Value of a date property for the frontmatter of a periodic note, from the first day of the
+ * note. Returns null for names that are not in DATE_PROPERTIES.
+ */
+export function getDatePropertyValue(name: string, date: JalaaliDate, settings: PluginSettings): string | number | null {
+    const pad = (value: number) => `0${value}`.slice(-2);
+    switch (name) {
+        case 'jalali':
+            return formatPlaceholderDate(date, { calendar: 'jalali' }, settings);
+        case 'gregorian':
+            return formatPlaceholderDate(date, { calendar: 'gregorian' }, settings);
+        case 'hijri':
+            return formatPlaceholderDate(date, { calendar: 'hijri' }, settings);
+        case 'weekday':
+            return formatPlaceholderDate(date, { format: 'dddd' }, settings);
+        case 'week':
+            return `${date.jy}-W${pad(getJalaaliWeek(date))}`;
+        case 'month':
+            return `${date.jy}-${pad(date.jm)}`;
+        case 'quarter':
+            return `${date.jy}-Q${Math.ceil(date.jm / 3)}`;
+        case 'year':
+            return date.jy;
+        default:
+            return null;
+    }
+}
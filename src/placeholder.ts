@@ -1,11 +1,37 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { TFile } from 'obsidian';
+import { TFile, TFolder, Notice } from 'obsidian';
 import moment from 'moment-jalaali';
 import jalaali from 'jalaali-js';
-import { PersianCalendarHolidays, HijriCalendarHolidays, GregorianCalendarHolidays } from './holidays';
 import PersianCalendarPlugin from './main';
-import hijriMoment from 'moment-hijri';
-import { iranianHijriAdjustments,basePersianDate, baseHijriDate } from './hijri';
+import { formatEventsPlaceholder } from './events';
+import type { JalaaliDate } from './settings';
+import type { PeriodicNoteKind } from './noteindex';
+import { DATE_PROPERTIES, formatNoteLink, getDatePropertyValue, getPeriodicNoteEnd, getPeriodicNotePath } from './periodicnotes';
+import {
+    PLACEHOLDER_PATTERN,
+    ParsedPlaceholder,
+    applyPlaceholderDigits,
+    expandFrontmatterValue,
+    formatPlaceholderDate,
+    parsePlaceholder,
+    quoteFrontmatterPlaceholders,
+    shiftJalaaliDate,
+    splitFrontmatter,
+} from './placeholdersyntax';
+
+// A placeholder refers to a day, which can be shifted and formatted, links to the periodic
+// note containing a day, or is plain text
+type PlaceholderDefinition =
+    | {
+        // The day, or null to leave the placeholder in place
+        date: () => JalaaliDate | null;
+        // Fixed output for the day when no format is given
+        render: (date: JalaaliDate) => string;
+        defaultFormat?: string;
+    }
+    | { date: () => JalaaliDate | null, link: PeriodicNoteKind }
+    // A list of links to daily notes
+    | { days: () => JalaaliDate[] | null }
+    | { text: () => string | null };
 
 
 
@@ -16,6 +42,14 @@ export default class PersianPlaceholders {
         this.plugin = plugin;
     }
 
+    // Paths of new notes still waiting for another plugin to write their template, with their creation time
+    private pendingFiles: Map<string, number> = new Map();
+
+    /**
+     * Expand the placeholders of a newly created note. Notes created empty by Templater or
+     * the core Templates plugin get their template in a later write, so they are expanded on
+     * the first modification within `timeoutDuration` instead.
+     */
     public async insertPersianDate(file: TFile): Promise<void> {
         if (!file) {
             console.error("File object is undefined.");
@@ -23,152 +57,434 @@ export default class PersianPlaceholders {
         }
 
         const timeoutDuration = this.plugin.settings.timeoutDuration || 1250;
-
-        setTimeout(async () => {
-            const fileContent = await this.plugin.app.vault.read(file);
-            let updatedContent = fileContent;
-
-            type PlaceholderValue = (() => Promise<string | null> | string | null) | string | null;
-
-            const placeholders: { [key: string]: PlaceholderValue } = {
-                '{{امروز}}': this.getPersianDate(),
-                '{{این روز}}': this.getFormattedDateFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{روز هفته}}': this.getCurrentWeekday(),
-                '{{این روز هفته}}': this.getWeekdayFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{هفته}}': this.getCurrentWeek(),
-                '{{این هفته}}': this.getWeekNumberFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{ماه}}': this.getCurrentMonth(),
-                '{{این ماه}}': this.getMonthNumberFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{فصل}}': this.getCurrentQuarter(),
-                '{{این فصل}}': this.getQuarterNumberFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{سال}}': this.getCurrentYear(),
-                '{{این سال}}': this.getYearNumberFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{روزهای گذشته}}': this.getDaysPassedFromFileTitle(file.basename, this.plugin.settings.dateFormat),
-                '{{روزهای باقیمانده}}': this.getDaysUntilEndOfYear(file.basename, this.plugin.settings.dateFormat),
-                '{{اول هفته}}': this.isWeeklyFile(file.basename) ? this.getWeekStartDate(parseInt(file.basename.split('-W')[0]), parseInt(file.basename.split('-W')[1]), this.plugin.settings.dateFormat) : null,
-                '{{آخر هفته}}': this.isWeeklyFile(file.basename) ? this.getWeekEndDate(parseInt(file.basename.split('-W')[0]), parseInt(file.basename.split('-W')[1]), this.plugin.settings.dateFormat) : null,
-                '{{اول ماه}}': this.isMonthlyFile(file.basename) ? this.getMonthStartDate(file.basename, this.plugin.settings.dateFormat) : null,
-                '{{آخر ماه}}': this.isMonthlyFile(file.basename) ? this.getMonthEndDate(file.basename, this.plugin.settings.dateFormat) : null, 
-                '{{اول سال}}': this.getFirstDayOfYear(file.basename, this.plugin.settings.dateFormat),
-                '{{آخر سال}}': this.getLastDayOfYear(file.basename, this.plugin.settings.dateFormat),
-                '{{مناسبت}}': () => this.getEvents(file.basename),       
-            };
-
-            for (const [placeholder, value] of Object.entries(placeholders)) {
-                if (fileContent.includes(placeholder)) {
-                    const result = typeof value === 'function' ? await value() : value;
-                    if (result != null) {
-                        updatedContent = updatedContent.replace(new RegExp(placeholder, 'g'), result);
-                    }
-                }
-            }
-
-            if (updatedContent !== fileContent) {
-                await this.plugin.app.vault.modify(file, updatedContent);
+        const now = Date.now();
+        this.pendingFiles.forEach((createdAt, path) => {
+            if (now - createdAt > timeoutDuration) {
+                this.pendingFiles.delete(path);
             }
-        }, timeoutDuration);
-    }
+        });
 
-    private getJalaaliMoment(): moment.Moment {
-        return moment().locale('fa');
+        const fileContent = await this.plugin.app.vault.read(file);
+        if (fileContent.trim() === '') {
+            this.pendingFiles.set(file.path, now);
+            return;
+        }
+        await this.expandPlaceholdersInFile(file);
+        await this.addDateProperties(file);
     }
 
-    private getPersianDate(): string {
-        const now = this.getJalaaliMoment();
-        return now.format('jYYYY-jMM-jDD');
+    /**
+     * Called on every vault modification, expands notes that insertPersianDate found empty
+     */
+    public async handleFileModify(file: TFile): Promise<void> {
+        const createdAt = this.pendingFiles.get(file.path);
+        if (createdAt === undefined) {
+            return;
+        }
+        this.pendingFiles.delete(file.path);
+        if (Date.now() - createdAt <= (this.plugin.settings.timeoutDuration || 1250)) {
+            await this.expandPlaceholdersInFile(file);
+            await this.addDateProperties(file);
+        }
     }
 
-    private getCurrentWeekday(): string {
-        const now = this.getJalaaliMoment();
-        return now.format('dddd');
+    /**
+     * Content for a new note from a template file, with the placeholders already expanded
+     * for the note's title. Returns an empty string when no template is set.
+     */
+    public async renderTemplate(templatePath: string, notePath: string): Promise<string> {
+        const normalizedPath = templatePath.trim().replace(/^\/+/, '');
+        if (!normalizedPath) {
+            return '';
+        }
+        const vault = this.plugin.app.vault;
+        const template = vault.getAbstractFileByPath(normalizedPath) ?? vault.getAbstractFileByPath(`${normalizedPath}.md`);
+        if (!(template instanceof TFile)) {
+            new Notice(`فایل قالب ${templatePath} پیدا نشد.`);
+            return '';
+        }
+        const basename = notePath.split('/').pop()?.replace(/\.md$/, '') ?? notePath;
+        return this.expandPlaceholders(await vault.read(template), basename, notePath);
+    }
+
+    /**
+     * Expand the placeholders of a note that already exists. Returns true if it changed.
+     */
+    public async expandPlaceholdersInFile(file: TFile): Promise<boolean> {
+        const fileContent = await this.plugin.app.vault.read(file);
+        const updatedContent = this.expandPlaceholders(fileContent, file.basename, file.path);
+        if (updatedContent !== fileContent) {
+            // process() writes atomically, so an edit made in between is not overwritten
+            await this.plugin.app.vault.process(file, content => this.expandPlaceholders(content, file.basename, file.path));
+        }
+        const frontmatterChanged = await this.expandFrontmatterPlaceholders(file);
+        return updatedContent !== fileContent || frontmatterChanged;
+    }
+
+    /**
+     * Expand the placeholders in the frontmatter through Obsidian's frontmatter API, so the
+     * results are written as properly typed and quoted YAML. Returns true if it changed.
+     */
+    public async expandFrontmatterPlaceholders(file: TFile): Promise<boolean> {
+        const expand = (text: string) => this.expandText(text, file.basename, file.path);
+        const { frontmatter } = splitFrontmatter(await this.plugin.app.vault.read(file));
+        // processFrontMatter rewrites the file even when nothing changes, so it is only called
+        // when some placeholder in the frontmatter is substituted
+        if (expand(frontmatter) === frontmatter) {
+            return false;
+        }
+        let changed = false;
+        await this.plugin.app.fileManager.processFrontMatter(file, (properties: { [key: string]: unknown }) => {
+            Object.keys(properties).forEach(key => {
+                const value = expandFrontmatterValue(properties[key], expand);
+                if (JSON.stringify(value) !== JSON.stringify(properties[key])) {
+                    properties[key] = value;
+                    changed = true;
+                }
+            });
+        });
+        return changed;
+    }
+
+    /**
+     * Add the date properties chosen in the settings to a periodic note, keeping the ones
+     * it already has
+     */
+    public async addDateProperties(file: TFile): Promise<void> {
+        const names = this.plugin.settings.periodicNoteDateProperties.split(',')
+            .map(name => name.trim())
+            .filter(name => DATE_PROPERTIES.includes(name));
+        if (names.length === 0) {
+            return;
+        }
+        const date = this.getPeriodicNoteDate(file.path);
+        if (!date) {
+            return;
+        }
+        const existing = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (existing && names.every(name => existing[name] !== undefined)) {
+            return;
+        }
+        await this.plugin.app.fileManager.processFrontMatter(file, (properties: { [key: string]: unknown }) => {
+            names.forEach(name => {
+                if (properties[name] === undefined) {
+                    properties[name] = getDatePropertyValue(name, date, this.plugin.settings);
+                }
+            });
+        });
+    }
+
+    /**
+     * Kind and first day of the periodic note at a path, read with the folder and format
+     * settings whether or not the note exists yet
+     */
+    public getPeriodicNote(path: string): { kind: PeriodicNoteKind, date: JalaaliDate } | null {
+        const noteIndex = this.plugin.noteIndex;
+        const entry = noteIndex.getEntries(path)[0] ?? noteIndex.classifyPath(path)[0];
+        if (!entry) {
+            return null;
+        }
+        switch (entry.kind) {
+            case 'daily': {
+                const [jy, jm] = entry.bucket.split('-').map(Number);
+                return { kind: entry.kind, date: { jy, jm, jd: entry.value } };
+            }
+            case 'weekly': {
+                const [jy, jm, jd] = this.getWeekStartDate(parseInt(entry.bucket), entry.value, 'persian').split('-').map(Number);
+                return { kind: entry.kind, date: { jy, jm, jd } };
+            }
+            case 'monthly':
+                return { kind: entry.kind, date: { jy: parseInt(entry.bucket), jm: entry.value, jd: 1 } };
+            case 'quarterly':
+                return { kind: entry.kind, date: { jy: parseInt(entry.bucket), jm: entry.value * 3 - 2, jd: 1 } };
+            case 'yearly':
+                return { kind: entry.kind, date: { jy: entry.value, jm: 1, jd: 1 } };
+        }
     }
 
-    private getCurrentWeek(): string {
-        const now = this.getJalaaliMoment();
-        return `${now.jYear()}-W${now.jWeek()}`;
+    /**
+     * First day of the periodic note at a path
+     */
+    public getPeriodicNoteDate(path: string): JalaaliDate | null {
+        return this.getPeriodicNote(path)?.date ?? null;
     }
 
-    private getCurrentMonth(): string {
-        const now = this.getJalaaliMoment();
-        return `${now.jYear()}-${now.jMonth() + 1}`;
+    /**
+     * Expand the placeholders of every note in a folder and its subfolders. Returns the number
+     * of notes that changed.
+     */
+    public async expandPlaceholdersInFolder(folder: TFolder): Promise<number> {
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        let changed = 0;
+        for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+            if (file.path.startsWith(prefix) && await this.expandPlaceholdersInFile(file)) {
+                changed++;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Replace every {{placeholder}} in the text. Placeholders about "this" day, week, etc.
+     * are resolved from the note path with the folder and format settings, or from the title
+     * when no path is given or the path is not a periodic note; ones that do not apply to it
+     * are left as they are. Placeholders that refer to a day also take a format, see
+     * placeholdersyntax.ts.
+     */
+    public expandPlaceholders(content: string, title: string, path?: string): string {
+        // The frontmatter is expanded separately by expandFrontmatterPlaceholders, here its
+        // placeholders are only quoted so the YAML stays valid until then
+        const { frontmatter, body } = splitFrontmatter(content);
+        const isExpanded = (placeholder: string) => this.expandText(placeholder, title, path) !== placeholder;
+        return quoteFrontmatterPlaceholders(frontmatter, isExpanded) + this.expandText(body, title, path);
+    }
+
+    /**
+     * Value of a single placeholder, written with or without its braces, e.g. `امروز+1:jD jMMMM`.
+     * Returns null for unknown placeholders and ones that do not apply to the note title.
+     */
+    public resolvePlaceholderText(placeholder: string, title: string): string | null {
+        const parsed = parsePlaceholder(placeholder.trim().replace(/^\{\{([\s\S]*)\}\}$/, '$1'));
+        const definition = parsed ? this.getPlaceholderDefinitions(title)[parsed.name] : undefined;
+        return parsed && definition ? this.resolvePlaceholder(definition, parsed) : null;
+    }
+
+    private expandText(content: string, title: string, path?: string): string {
+        const placeholders = this.getPlaceholderDefinitions(title, path);
+        return content.replace(PLACEHOLDER_PATTERN, (placeholder: string, body: string) => {
+            const parsed = parsePlaceholder(body);
+            const definition = parsed ? placeholders[parsed.name] : undefined;
+            if (!parsed || !definition) {
+                return placeholder;
+            }
+            const result = this.resolvePlaceholder(definition, parsed);
+            return result ?? placeholder;
+        });
     }
 
-    private getCurrentQuarter(): string {
-        const now = this.getJalaaliMoment();
-        const quarter = Math.ceil((now.jMonth() + 1) / 3);
-        return `${now.jYear()}-Q${quarter}`;
-    }
+    private resolvePlaceholder(definition: PlaceholderDefinition, args: ParsedPlaceholder): string | null {
+        if ('text' in definition) {
+            if (args.format !== undefined || args.calendar !== undefined || args.offsets.length > 0) {
+                return null;
+            }
+            const text = definition.text();
+            return text != null && args.language ? applyPlaceholderDigits(text, args.language) : text;
+        }
 
-    private getCurrentYear(): string {
-        const now = this.getJalaaliMoment();
-        return `${now.jYear()}`;
-    }
+        if ('days' in definition) {
+            const days = args.offsets.length === 0 ? definition.days() : null;
+            if (!days) {
+                return null;
+            }
+            return days
+                .filter(date => !args.existingOnly || this.plugin.noteIndex.getDaysWithNotes(date.jy, date.jm).includes(date.jd))
+                .map(date => `- ${this.formatLink('daily', date, args)}`)
+                .join('\n');
+        }
 
-    private parseDateFromTitle(title: string, dateFormat: string): moment.Moment | null {
-        let parsedDate = moment(title, dateFormat === 'persian' ? 'jYYYY-jMM-jDD' : 'YYYY-MM-DD');
-        if (!parsedDate.isValid()) {
+        const baseDate = definition.date();
+        if (!baseDate) {
             return null;
         }
-        if (dateFormat === 'georgian') {
-            const persianDate = parsedDate.locale('fa').format('jYYYY/jMM/jD');
-            parsedDate = moment(persianDate, 'jYYYY/jMM/jD');
+        const date = shiftJalaaliDate(baseDate, args.offsets);
+        if ('link' in definition) {
+            return this.formatLink(definition.link, date, args);
+        }
+        // Names are only translated through a format, so English weekdays take the format path
+        const needsFormat = args.format !== undefined || args.calendar !== undefined
+            || (args.language === 'en' && definition.defaultFormat !== undefined);
+        if (needsFormat) {
+            return formatPlaceholderDate(date, args, this.plugin.settings, definition.defaultFormat);
+        }
+        const text = definition.render(date);
+        return args.language ? applyPlaceholderDigits(text, args.language) : text;
+    }
+
+    private formatLink(kind: PeriodicNoteKind, date: JalaaliDate, args: ParsedPlaceholder): string {
+        // A format or calendar changes the text shown for the link
+        const alias = args.format !== undefined || args.calendar !== undefined
+            ? formatPlaceholderDate(date, args, this.plugin.settings)
+            : undefined;
+        return formatNoteLink(getPeriodicNotePath(this.plugin.settings, kind, date), alias);
+    }
+
+    private getPlaceholderDefinitions(title: string, path?: string): { [name: string]: PlaceholderDefinition } {
+        const dateFormat = this.plugin.settings.dateFormat;
+        const today = () => this.toJalaaliDate(moment());
+        const titleDate = () => {
+            const parsedDate = this.parseDateFromTitle(title, dateFormat);
+            return parsedDate ? this.toJalaaliDate(parsedDate) : null;
+        };
+        const noteDate = () => this.getNoteDate(title, path);
+        const noteDateShifted = (days: number) => () => {
+            const date = noteDate();
+            return date ? shiftJalaaliDate(date, [{ amount: days, unit: 'day' }]) : null;
+        };
+
+        const day = (date: JalaaliDate) => this.toMoment(date).format('jYYYY-jMM-jDD');
+        const weekday = (date: JalaaliDate) => this.toMoment(date).format('dddd');
+        const week = (date: JalaaliDate) => `${date.jy}-W${this.toMoment(date).jWeek()}`;
+        const month = (date: JalaaliDate) => `${date.jy}-${date.jm}`;
+        const quarter = (date: JalaaliDate) => `${date.jy}-Q${Math.ceil(date.jm / 3)}`;
+        const year = (date: JalaaliDate) => `${date.jy}`;
+        // Period boundaries follow the calendar of the note names
+        const boundary = (date: JalaaliDate) => this.formatDate(date, dateFormat);
+
+        return {
+            'امروز': { date: today, render: day },
+            'این روز': { date: titleDate, render: day },
+            'روز هفته': { date: today, render: weekday, defaultFormat: 'dddd' },
+            'این روز هفته': { date: titleDate, render: weekday, defaultFormat: 'dddd' },
+            'هفته': { date: today, render: week },
+            'این هفته': { date: titleDate, render: week },
+            'ماه': { date: today, render: month },
+            'این ماه': { date: titleDate, render: month },
+            'فصل': { date: today, render: quarter },
+            'این فصل': { date: titleDate, render: quarter },
+            'سال': { date: today, render: year },
+            'این سال': { date: titleDate, render: year },
+            'روزهای گذشته': { text: () => this.getDaysPassedFromFileTitle(title, dateFormat) },
+            'روزهای باقیمانده': { text: () => this.getDaysUntilEndOfYear(title, dateFormat) },
+            'اول هفته': { date: () => this.getPeriodBoundary(title, 'week', 'start', path), render: boundary },
+            'آخر هفته': { date: () => this.getPeriodBoundary(title, 'week', 'end', path), render: boundary },
+            'اول ماه': { date: () => this.getPeriodBoundary(title, 'month', 'start', path), render: boundary },
+            'آخر ماه': { date: () => this.getPeriodBoundary(title, 'month', 'end', path), render: boundary },
+            'اول سال': { date: () => this.getPeriodBoundary(title, 'year', 'start', path), render: boundary },
+            'آخر سال': { date: () => this.getPeriodBoundary(title, 'year', 'end', path), render: boundary },
+            'مناسبت': { text: () => this.getEvents(title) },
+            'لینک امروز': { date: today, link: 'daily' },
+            'لینک دیروز': { date: noteDateShifted(-1), link: 'daily' },
+            'لینک فردا': { date: noteDateShifted(1), link: 'daily' },
+            'لینک هفته': { date: noteDate, link: 'weekly' },
+            'لینک ماه': { date: noteDate, link: 'monthly' },
+            'لینک فصل': { date: noteDate, link: 'quarterly' },
+            'لینک سال': { date: noteDate, link: 'yearly' },
+            'روزنوشت‌ها': { days: () => this.getDaysOfPeriodNote(title, path) },
+            'روزنوشت ها': { days: () => this.getDaysOfPeriodNote(title, path) },
+        };
+    }
+
+    /**
+     * Every day of the weekly, monthly or quarterly note at the path, or else of the one named
+     * by a title written in the default formats
+     */
+    private getDaysOfPeriodNote(title: string, path?: string): JalaaliDate[] | null {
+        let start: JalaaliDate | null;
+        let end: JalaaliDate | null;
+        const note = path ? this.getPeriodicNote(path) : null;
+        const quarter = note ? null : this.parseQuarterlyTitle(title);
+        if (note) {
+            if (note.kind !== 'weekly' && note.kind !== 'monthly' && note.kind !== 'quarterly') {
+                return null;
+            }
+            start = note.date;
+            end = getPeriodicNoteEnd(note.kind, note.date);
+        } else if (quarter) {
+            const lastMonth = quarter.quarter * 3;
+            start = { jy: quarter.jy, jm: lastMonth - 2, jd: 1 };
+            end = { jy: quarter.jy, jm: lastMonth, jd: jalaali.jalaaliMonthLength(quarter.jy, lastMonth) };
+        } else if (this.isWeeklyFile(title)) {
+            start = this.getPeriodBoundary(title, 'week', 'start');
+            end = this.getPeriodBoundary(title, 'week', 'end');
+        } else {
+            start = this.getPeriodBoundary(title, 'month', 'start');
+            end = this.getPeriodBoundary(title, 'month', 'end');
+        }
+        if (!start || !end) {
+            return null;
         }
-        return parsedDate;
-    }
 
-    private getFormattedDateFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            return parsedDate.format('jYYYY-jMM-jDD');
+        const days: JalaaliDate[] = [];
+        // Stops at the end day, the length check only guards against a malformed range
+        for (let date = start; days.length < 100; date = shiftJalaaliDate(date, [{ amount: 1, unit: 'day' }])) {
+            days.push(date);
+            if (date.jy === end.jy && date.jm === end.jm && date.jd === end.jd) {
+                break;
+            }
         }
-        return null;
+        return days;
     }
 
-    private getWeekdayFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            return parsedDate.format('dddd');
+    /**
+     * The day a daily note is about, or the first day of a weekly, monthly, quarterly or yearly
+     * note, from its path or else from a title written in the default formats
+     */
+    private getNoteDate(title: string, path?: string): JalaaliDate | null {
+        const note = path ? this.getPeriodicNote(path) : null;
+        if (note) {
+            return note.date;
         }
-        return null;
+        const quarter = this.parseQuarterlyTitle(title);
+        if (quarter) {
+            return { jy: quarter.jy, jm: quarter.quarter * 3 - 2, jd: 1 };
+        }
+        if (this.isWeeklyFile(title)) {
+            return this.getPeriodBoundary(title, 'week', 'start');
+        }
+        if (this.isMonthlyFile(title)) {
+            return this.getPeriodBoundary(title, 'month', 'start');
+        }
+        if (/^\d{4}$/.test(title)) {
+            return this.getPeriodBoundary(title, 'year', 'start');
+        }
+        const parsedDate = this.parseDateFromTitle(title, this.plugin.settings.dateFormat);
+        return parsedDate ? this.toJalaaliDate(parsedDate) : null;
     }
 
-    private getWeekNumberFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            const jWeek = parsedDate.jWeek();
-            const jYear = parsedDate.jYear();
-            return `${jYear}-W${jWeek}`;
-        }
-        return null;
+    private toJalaaliDate(date: moment.Moment): JalaaliDate {
+        return { jy: date.jYear(), jm: date.jMonth() + 1, jd: date.jDate() };
     }
 
-    private getMonthNumberFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            const jMonth = parsedDate.jMonth() + 1;
-            const jYear = parsedDate.jYear();
-            return `${jYear}-${jMonth}`;
-        }
-        return null;
+    private toMoment(date: JalaaliDate): moment.Moment {
+        return moment(`${date.jy}/${date.jm}/${date.jd}`, 'jYYYY/jM/jD').locale('fa');
     }
 
-    private getYearNumberFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            return `${parsedDate.jYear()}`;
+    /**
+     * First or last day of the week, month or year note at the path, or named by the title
+     * in the default formats
+     */
+    private getPeriodBoundary(title: string, period: 'week' | 'month' | 'year', boundary: 'start' | 'end', path?: string): JalaaliDate | null {
+        const note = path ? this.getPeriodicNote(path) : null;
+        if (note) {
+            const kinds: { [key in typeof period]: PeriodicNoteKind } = { week: 'weekly', month: 'monthly', year: 'yearly' };
+            if (note.kind !== kinds[period]) {
+                return null;
+            }
+            return boundary === 'start' ? note.date : getPeriodicNoteEnd(note.kind, note.date);
         }
-        return null;
+        if (period === 'week') {
+            if (!this.isWeeklyFile(title)) {
+                return null;
+            }
+            const [year, week] = title.split('-W').map(Number);
+            const date = boundary === 'start' ? this.getWeekStartDate(year, week, 'persian') : this.getWeekEndDate(year, week, 'persian');
+            const [jy, jm, jd] = date.split('-').map(Number);
+            return { jy, jm, jd };
+        }
+        if (period === 'month') {
+            if (!this.isMonthlyFile(title)) {
+                return null;
+            }
+            const [jy, jm] = title.split('-').map(Number);
+            return { jy, jm, jd: boundary === 'start' ? 1 : jalaali.jalaaliMonthLength(jy, jm) };
+        }
+        const jy = parseInt(title);
+        if (isNaN(jy)) {
+            return null;
+        }
+        return boundary === 'start' ? { jy, jm: 1, jd: 1 } : { jy, jm: 12, jd: jalaali.jalaaliMonthLength(jy, 12) };
     }
 
-    private getQuarterNumberFromFileTitle(title: string, dateFormat: string): string | null {
-        const parsedDate = this.parseDateFromTitle(title, dateFormat);
-        if (parsedDate) {
-            const jMonth = parsedDate.jMonth() + 1;
-            const quarter = Math.ceil(jMonth / 3);
-            const jYear = parsedDate.jYear();
-            return `${jYear}-Q${quarter}`;
+    private parseDateFromTitle(title: string, dateFormat: string): moment.Moment | null {
+        let parsedDate = moment(title, dateFormat === 'persian' ? 'jYYYY-jMM-jDD' : 'YYYY-MM-DD');
+        if (!parsedDate.isValid()) {
+            return null;
         }
-        return null;
+        if (dateFormat === 'georgian') {
+            const persianDate = parsedDate.locale('fa').format('jYYYY/jMM/jD');
+            parsedDate = moment(persianDate, 'jYYYY/jMM/jD');
+        }
+        return parsedDate;
     }
 
     private getDaysPassedFromFileTitle(title: string, dateFormat: string): string | null {
@@ -269,172 +585,21 @@ export default class PersianPlaceholders {
         }
     }
 
+    private parseQuarterlyTitle(title: string): { jy: number, quarter: number } | null {
+        const match = title.match(/^(\d{4})-Q([1-4])$/);
+        return match ? { jy: parseInt(match[1]), quarter: parseInt(match[2]) } : null;
+    }
+
     private isMonthlyFile(title: string): boolean {
         const monthlyPattern = /^\d{4}-\d{2}$/;
         return monthlyPattern.test(title);
     }
     
-    private getMonthStartDate(title: string, dateFormat: string): string | null {
-        const [year, month] = title.split('-').map(Number);
-        if (dateFormat === 'persian') {
-            return `${year}-${month.toString().padStart(2, '0')}-01`;
-        } else {
-            const gregorianStart = jalaali.toGregorian(year, month, 1);
-            return `${gregorianStart.gy}-${gregorianStart.gm.toString().padStart(2, '0')}-${gregorianStart.gd.toString().padStart(2, '0')}`;
-        }
-    }
-    
-    private getMonthEndDate(title: string, dateFormat: string): string | null {
-        const [year, month] = title.split('-').map(Number);
-        if (dateFormat === 'persian') {
-            const jalaaliEndDay = jalaali.jalaaliMonthLength(year, month);
-            return `${year}-${month.toString().padStart(2, '0')}-${jalaaliEndDay.toString().padStart(2, '0')}`;
-        } else {
-            const jalaaliEndDay = jalaali.jalaaliMonthLength(year, month);
-            const gregorianEnd = jalaali.toGregorian(year, month, jalaaliEndDay);
-            return `${gregorianEnd.gy}-${gregorianEnd.gm.toString().padStart(2, '0')}-${gregorianEnd.gd.toString().padStart(2, '0')}`;
-        }
-    }
-
-    private getFirstDayOfYear(fileBasename: string, dateFormat: string): string {
-        const year = parseInt(fileBasename);
-        if (isNaN(year)) {
-            return '';
-        }
-    
-        if (this.plugin.settings.dateFormat.toLowerCase() === 'georgian') {
-            const georgianDate = jalaali.toGregorian(year, 1, 1);
-            return `${georgianDate.gy}-${georgianDate.gm.toString().padStart(2, '0')}-${georgianDate.gd.toString().padStart(2, '0')}`;
-        } else {
-            return `${year}-01-01`;
-        }
-    }
-    private getLastDayOfYear(fileBasename: string, dateFormat: string): string {
-        const year = parseInt(fileBasename);
-        if (isNaN(year)) {
-            return '';
-        }
-    
-        if (this.plugin.settings.dateFormat.toLowerCase() === 'georgian') {
-            const nextYear = jalaali.toGregorian(year + 1, 1, 1);
-            const lastDay = new Date(nextYear.gy, nextYear.gm - 1, nextYear.gd - 1);
-            return `${lastDay.getFullYear()}-${String(lastDay.getMonth() + 1).padStart(2, '0')}-${String(lastDay.getDate()).padStart(2, '0')}`;
-        } else {
-            const isLeapYear = jalaali.isLeapJalaaliYear(year);
-            return isLeapYear ? `${year}-12-30` : `${year}-12-29`;
-        }
-    }
-
-
-
-    private async getEvents(title: string): Promise<string> {
+    private getEvents(title: string): string {
         const date = this.parseDateFromTitle(title, this.plugin.settings.dateFormat);
         if (!date) {
             return 'تاریخ نامعتبر';
         }
-    
-        const events = [];
-        const settings = this.plugin.settings;
-    
-        // Persian (Jalaali) events
-        if (settings.showOfficialIranianCalendar || settings.showAncientIranianCalendar) {
-            const persianEvents = this.getEventsForDate(PersianCalendarHolidays, date.jMonth() + 1, date.jDate());
-            events.push(...persianEvents.filter(event => 
-                (settings.showOfficialIranianCalendar && event.type === "Iran") ||
-                (settings.showAncientIranianCalendar && event.type === "Ancient Iran")
-            ));
-        }
-    
-        // Gregorian events
-        events.push(...this.getEventsForDate(GregorianCalendarHolidays, date.month() + 1, date.date()));
-    
-        // Hijri events
-        if (settings.showShiaCalendar) {
-            const persianDate = { jy: date.jYear(), jm: date.jMonth() + 1, jd: date.jDate() };
-    
-            const hijriDate = this.getHijriDate(persianDate, settings.hijriCalendarType);
-    
-            const gregorianDate = jalaali.toGregorian(persianDate.jy, persianDate.jm, persianDate.jd);
-            const hijriMomentDate = hijriMoment(`${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`, 'YYYY-M-D');
-            hijriMomentDate.iYear(hijriDate.hy);
-            hijriMomentDate.iMonth(hijriDate.hm - 1); // iMonth is 0-indexed
-            hijriMomentDate.iDate(hijriDate.hd);
-    
-            const hijriEvents = HijriCalendarHolidays.filter(event => 
-                event.month === hijriMomentDate.iMonth() + 1 && event.day === hijriMomentDate.iDate()
-            );
-            events.push(...hijriEvents.filter(event => event.type === "Islamic Iran"));
-        }
-    
-        // Format events as a bulleted list
-        if (events.length === 0) {
-            return 'هیچ رویدادی برای این روز ثبت نشده است.';
-        }
-    
-        return events.map(event => `* ${event.title}${event.holiday ? ' (تعطیل)' : ''}`).join('\n');
-    }
-
-    private getEventsForDate(holidays: any[], month: number, day: number): any[] {
-        return holidays.filter(event => event.month === month && event.day === day);
-    }
-    public calculateIranianHijriDate(baseDate: { hy: number, hm: number, hd: number }, dayDifference: number): { hy: number, hm: number, hd: number } {
-        let { hy, hm, hd } = baseDate;
-    
-        while (dayDifference > 0) {
-            const monthLength = iranianHijriAdjustments[hy] ? iranianHijriAdjustments[hy][hm] : null;
-            if (monthLength) {
-                if (hd + dayDifference <= monthLength) {
-                    hd += dayDifference;
-                    dayDifference = 0;
-                } else {
-                    dayDifference -= (monthLength - hd + 1);
-                    hd = 1;
-                    hm += 1;
-                    if (hm > 12) {
-                        hm = 1;
-                        hy += 1;
-                    }
-                }
-            } else {
-                const gregorianDate = jalaali.toGregorian(baseDate.hy, baseDate.hm, baseDate.hd);
-                const gregorianDateStr = `${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`;
-                const hijriMomentDate = hijriMoment(gregorianDateStr, 'YYYY-M-D').add(dayDifference, 'days');
-                return {
-                    hy: hijriMomentDate.iYear(),
-                    hm: hijriMomentDate.iMonth() + 1,
-                    hd: hijriMomentDate.iDate()
-                };
-            }
-        }
-    
-        return { hy, hm, hd };
-    }
-    
-    public getHijriDate(persianDate: { jy: number, jm: number, jd: number }, hijriCalendarType: string ): { hy: number, hm: number, hd: number } {
-        if (hijriCalendarType === 'ummalqura') {
-            const gregorianDate = jalaali.toGregorian(persianDate.jy, persianDate.jm, persianDate.jd);
-            const gregorianDateStr = `${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`;
-            const hijriMomentDate = hijriMoment(gregorianDateStr, 'YYYY-M-D');
-            return {
-                hy: hijriMomentDate.iYear(),
-                hm: hijriMomentDate.iMonth() + 1,
-                hd: hijriMomentDate.iDate(),
-            };
-        } else {
-            const dayDifference = this.calculateDayDifference(basePersianDate, persianDate);
-            return this.calculateIranianHijriDate(baseHijriDate, dayDifference);
-        }
-    }
-
-    
-    public calculateDayDifference(fromDate: { jy: number, jm: number, jd: number }, toDate: { jy: number, jm: number, jd: number }): number {
-        const fromGregorian = jalaali.toGregorian(fromDate.jy, fromDate.jm, fromDate.jd);
-        const toGregorian = jalaali.toGregorian(toDate.jy, toDate.jm, toDate.jd);
-        const fromDateObj = new Date(fromGregorian.gy, fromGregorian.gm - 1, fromGregorian.gd);
-        const toDateObj = new Date(toGregorian.gy, toGregorian.gm - 1, toGregorian.gd);
-        const timeDiff = toDateObj.getTime() - fromDateObj.getTime();
-        return timeDiff / (1000 * 3600 * 24); 
+        return formatEventsPlaceholder(this.plugin, { jy: date.jYear(), jm: date.jMonth() + 1, jd: date.jDate() });
     }
 }
-
-
@@ -0,0 +1,154 @@
+import { DEFAULT_SETTINGS } from './settings';
+import {
+    applyPlaceholderDigits,
+    expandFrontmatterValue,
+    formatPlaceholderDate,
+    parsePlaceholder,
+    quoteFrontmatterPlaceholders,
+    shiftJalaaliDate,
+    splitFrontmatter,
+} from './placeholdersyntax';
+
+jest.mock('moment-jalaali', () => ({ __esModule: true, default: jest.requireActual('moment-jalaali') }));
+jest.mock('moment-hijri', () => ({ __esModule: true, default: jest.requireActual('moment-hijri') }));
+
+// 1403-05-11 is Thursday 2024-08-01 and 26 Muharram 1446 in Iran
+const date = { jy: 1403, jm: 5, jd: 11 };
+
+describe('parsePlaceholder', () => {
+    test('reads the name alone', () => {
+        expect(parsePlaceholder(' این روز ')).toEqual({ name: 'این روز', offsets: [] });
+    });
+
+    test('reads modifiers and a format that may contain colons', () => {
+        expect(parsePlaceholder('امروز:jD jMMMM jYYYY')).toEqual({ name: 'امروز', offsets: [], format: 'jD jMMMM jYYYY' });
+        expect(parsePlaceholder('این روز|gregorian:YYYY/MM/DD')).toEqual({ name: 'این روز', offsets: [], calendar: 'gregorian', format: 'YYYY/MM/DD' });
+        expect(parsePlaceholder('امروز|قمری, fa')).toEqual({ name: 'امروز', offsets: [], calendar: 'hijri', language: 'fa' });
+        expect(parsePlaceholder('روزنوشت‌ها|موجود')).toEqual({ name: 'روزنوشت‌ها', offsets: [], existingOnly: true });
+        expect(parsePlaceholder('امروز:HH:mm')).toEqual({ name: 'امروز', offsets: [], format: 'HH:mm' });
+    });
+
+    test('reads offsets with Persian or English units and digits', () => {
+        expect(parsePlaceholder('این روز+7')?.offsets).toEqual([{ amount: 7, unit: 'day' }]);
+        expect(parsePlaceholder('امروز-۱ماه')).toMatchObject({ name: 'امروز', offsets: [{ amount: -1, unit: 'month' }] });
+        expect(parsePlaceholder('اول هفته + 1 هفته - 2:dddd')).toMatchObject({
+            name: 'اول هفته',
+            offsets: [{ amount: 1, unit: 'week' }, { amount: -2, unit: 'day' }],
+            format: 'dddd',
+        });
+        expect(parsePlaceholder('سال+1y')?.offsets).toEqual([{ amount: 1, unit: 'year' }]);
+    });
+
+    test('keeps dashes that are not offsets in the name', () => {
+        expect(parsePlaceholder('this-week')).toEqual({ name: 'this-week', offsets: [] });
+        expect(parsePlaceholder('امروز+2قرن')).toEqual({ name: 'امروز+2قرن', offsets: [] });
+    });
+
+    test('maps English aliases after the pc: prefix', () => {
+        expect(parsePlaceholder('pc:today')).toEqual({ name: 'امروز', offsets: [] });
+        expect(parsePlaceholder('pc:this-week')).toEqual({ name: 'این هفته', offsets: [] });
+        expect(parsePlaceholder('PC:this-day+1w|gregorian,en:MMMM D')).toEqual({
+            name: 'این روز', offsets: [{ amount: 1, unit: 'week' }], calendar: 'gregorian', language: 'en', format: 'MMMM D',
+        });
+        expect(parsePlaceholder('pc:events')?.name).toBe('مناسبت');
+        expect(parsePlaceholder('today')?.name).toBe('today');
+    });
+
+    test('rejects unknown modifiers and empty names', () => {
+        expect(parsePlaceholder('date|julian')).toBeNull();
+        expect(parsePlaceholder(':YYYY')).toBeNull();
+    });
+});
+
+describe('formatPlaceholderDate', () => {
+    const format = (args: Parameters<typeof formatPlaceholderDate>[1], defaultFormat?: string) =>
+        formatPlaceholderDate(date, args, DEFAULT_SETTINGS, defaultFormat);
+
+    test('uses the default format of the calendar', () => {
+        expect(format({})).toBe('1403-05-11');
+        expect(format({ calendar: 'gregorian' })).toBe('2024-08-01');
+        expect(format({ calendar: 'hijri' })).toBe('1446-01-26');
+        expect(format({}, 'dddd')).toBe('پنج‌شنبه');
+    });
+
+    test('formats Jalaali, Gregorian and Hijri tokens with Persian names', () => {
+        expect(format({ format: 'jD jMMMM jYYYY' })).toBe('11 مرداد 1403');
+        expect(format({ format: 'dddd D MMMM' })).toBe('پنج‌شنبه 1 اوت');
+        expect(format({ format: 'iD iMMMM iYYYY' })).toBe('26 محرم 1446');
+    });
+
+    test('switches digits and names with the language', () => {
+        expect(format({ format: 'jD jMMMM jYYYY', language: 'fa' })).toBe('۱۱ مرداد ۱۴۰۳');
+        expect(format({ format: 'dddd, MMMM D', language: 'en' })).toBe('Thursday, August 1');
+        expect(format({ format: 'iD iMMMM', language: 'en' })).toBe('26 Muharram');
+    });
+});
+
+describe('shiftJalaaliDate', () => {
+    test('moves by days and weeks across months and years', () => {
+        expect(shiftJalaaliDate(date, [{ amount: 30, unit: 'day' }])).toEqual({ jy: 1403, jm: 6, jd: 10 });
+        expect(shiftJalaaliDate({ jy: 1403, jm: 1, jd: 3 }, [{ amount: -1, unit: 'week' }])).toEqual({ jy: 1402, jm: 12, jd: 25 });
+    });
+
+    test('moves by Jalaali months, quarters and years, keeping the day when it exists', () => {
+        expect(shiftJalaaliDate({ jy: 1403, jm: 6, jd: 31 }, [{ amount: 1, unit: 'month' }])).toEqual({ jy: 1403, jm: 7, jd: 30 });
+        expect(shiftJalaaliDate(date, [{ amount: -2, unit: 'quarter' }])).toEqual({ jy: 1402, jm: 11, jd: 11 });
+        expect(shiftJalaaliDate({ jy: 1403, jm: 12, jd: 30 }, [{ amount: 1, unit: 'year' }])).toEqual({ jy: 1404, jm: 12, jd: 29 });
+    });
+});
+
+describe('applyPlaceholderDigits', () => {
+    test('converts digits both ways', () => {
+        expect(applyPlaceholderDigits('1403-W12', 'fa')).toBe('۱۴۰۳-W۱۲');
+        expect(applyPlaceholderDigits('۱۴۰۳', 'en')).toBe('1403');
+    });
+});
+
+describe('frontmatter', () => {
+    test('splits the frontmatter block from the body', () => {
+        expect(splitFrontmatter('---\ndate: 1\n---\nBody\n---\n')).toEqual({ frontmatter: '---\ndate: 1\n---\n', body: 'Body\n---\n' });
+        expect(splitFrontmatter('Body only')).toEqual({ frontmatter: '', body: 'Body only' });
+    });
+
+    test('quotes values that start with a placeholder', () => {
+        const frontmatter = "---\ndate: {{امروز}}\ntitle: روز {{امروز}}\nnote: {{مناسبت}} it's\nlinks:\n  - {{لینک دیروز}}\nquoted: '{{امروز}}'\n---\n";
+        expect(quoteFrontmatterPlaceholders(frontmatter, () => true)).toBe(
+            "---\ndate: '{{امروز}}'\ntitle: روز {{امروز}}\nnote: '{{مناسبت}} it''s'\nlinks:\n  - '{{لینک دیروز}}'\nquoted: '{{امروز}}'\n---\n"
+        );
+    });
+
+    test('leaves values starting with placeholders that are not expanded', () => {
+        const frontmatter = '---\ndate: {{امروز}}\nauthor: {{author}}\nstart: {{اول هفته}}\n---\n';
+        const isExpanded = (placeholder: string) => placeholder === '{{امروز}}';
+        expect(quoteFrontmatterPlaceholders(frontmatter, isExpanded)).toBe(
+            "---\ndate: '{{امروز}}'\nauthor: {{author}}\nstart: {{اول هفته}}\n---\n"
+        );
+    });
+
+    test('expands values and types whole-placeholder results', () => {
+        const results: { [text: string]: string } = {
+            '{{امروز}}': '1403-05-11',
+            '{{روزهای گذشته}}': '135',
+            '{{روزنوشت‌ها}}': '- [[1403-05-11]]\n- [[1403-05-12]]',
+            'تا {{روزهای گذشته}}': 'تا 135',
+        };
+        const expand = (text: string) => results[text] ?? text;
+        expect(expandFrontmatterValue({
+            date: '{{امروز}}',
+            days: '{{روزهای گذشته}}',
+            text: 'تا {{روزهای گذشته}}',
+            nested: { list: ['{{امروز}}', 3] },
+            notes: '{{روزنوشت‌ها}}',
+            unknown: '{{other}}',
+            flag: true,
+        }, expand)).toEqual({
+            date: '1403-05-11',
+            days: 135,
+            text: 'تا 135',
+            nested: { list: ['1403-05-11', 3] },
+            notes: ['[[1403-05-11]]', '[[1403-05-12]]'],
+            unknown: '{{other}}',
+            flag: true,
+        });
+    });
+});
@@ -0,0 +1,335 @@
+import moment from 'moment-jalaali';
+import * as jalaali from 'jalaali-js';
+import type { JalaaliDate, PluginSettings } from './settings';
+import { getHijriDate } from './hijri';
+import { toLatinDigits } from './customevents';
+
+/**
+ * The argument syntax of template placeholders:
+ *
+ *     {{name}}
+ *     {{name:format}}
+ *     {{name|modifier,modifier:format}}
+ *     {{name+7}}, {{name-1ماه}}, {{name+1هفته-1:format}}
+ *
+ * The format is a moment-jalaali format (`jYYYY/jMM/jDD`, `dddd D MMMM`), or a Hijri
+ * one with `iYYYY`, `iMMMM`, `iD` tokens. Modifiers pick the calendar of the default
+ * format (jalali, gregorian, hijri), the digits and names (fa, en), and for lists of notes
+ * whether only existing notes are listed (existing). Offsets move the
+ * day by days (the default unit), weeks, or Jalaali months, quarters and years.
+ */
+
+export type PlaceholderCalendar = 'jalali' | 'gregorian' | 'hijri';
+export type PlaceholderLanguage = 'fa' | 'en';
+
+export interface PlaceholderArguments {
+    calendar?: PlaceholderCalendar;
+    language?: PlaceholderLanguage;
+    existingOnly?: boolean;
+    format?: string;
+}
+
+export type PlaceholderOffsetUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface PlaceholderOffset {
+    amount: number;
+    unit: PlaceholderOffsetUnit;
+}
+
+export interface ParsedPlaceholder extends PlaceholderArguments {
+    name: string;
+    offsets: PlaceholderOffset[];
+}
+
+/**
+ * English aliases of the placeholder names, used after the `pc:` prefix
+ */
+export const ENGLISH_PLACEHOLDER_NAMES: { [alias: string]: string } = {
+    'today': 'امروز',
+    'this-day': 'این روز',
+    'weekday': 'روز هفته',
+    'this-weekday': 'این روز هفته',
+    'week': 'هفته',
+    'this-week': 'این هفته',
+    'month': 'ماه',
+    'this-month': 'این ماه',
+    'quarter': 'فصل',
+    'this-quarter': 'این فصل',
+    'year': 'سال',
+    'this-year': 'این سال',
+    'days-passed': 'روزهای گذشته',
+    'days-remaining': 'روزهای باقیمانده',
+    'week-start': 'اول هفته',
+    'week-end': 'آخر هفته',
+    'month-start': 'اول ماه',
+    'month-end': 'آخر ماه',
+    'year-start': 'اول سال',
+    'year-end': 'آخر سال',
+    'events': 'مناسبت',
+    'link-today': 'لینک امروز',
+    'link-yesterday': 'لینک دیروز',
+    'link-tomorrow': 'لینک فردا',
+    'link-week': 'لینک هفته',
+    'link-month': 'لینک ماه',
+    'link-quarter': 'لینک فصل',
+    'link-year': 'لینک سال',
+    'daily-notes': 'روزنوشت‌ها',
+};
+
+const ENGLISH_PREFIX = 'pc:';
+
+// Matches a whole {{...}} placeholder, the part between the braces is captured
+export const PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+const CALENDAR_MODIFIERS: { [modifier: string]: PlaceholderCalendar } = {
+    'jalali': 'jalali',
+    'jalaali': 'jalali',
+    'شمسی': 'jalali',
+    'gregorian': 'gregorian',
+    'میلادی': 'gregorian',
+    'hijri': 'hijri',
+    'قمری': 'hijri',
+};
+
+const LANGUAGE_MODIFIERS: { [modifier: string]: PlaceholderLanguage } = {
+    'fa': 'fa',
+    'فارسی': 'fa',
+    'en': 'en',
+    'latin': 'en',
+    'لاتین': 'en',
+};
+
+const OFFSET_UNITS: { [unit: string]: PlaceholderOffsetUnit } = {
+    '': 'day',
+    'روز': 'day',
+    'd': 'day',
+    'day': 'day',
+    'days': 'day',
+    'هفته': 'week',
+    'w': 'week',
+    'week': 'week',
+    'weeks': 'week',
+    'ماه': 'month',
+    'm': 'month',
+    'month': 'month',
+    'months': 'month',
+    'فصل': 'quarter',
+    'q': 'quarter',
+    'quarter': 'quarter',
+    'quarters': 'quarter',
+    'سال': 'year',
+    'y': 'year',
+    'year': 'year',
+    'years': 'year',
+};
+
+const OFFSET_PATTERN = /^\s*([+-])\s*([0-9۰-۹]+)\s*([^\s0-9۰-۹+-]*)/;
+
+const EXISTING_MODIFIERS = ['existing', 'موجود'];
+
+const DEFAULT_FORMATS: { [calendar in PlaceholderCalendar]: string } = {
+    jalali: 'jYYYY-jMM-jDD',
+    gregorian: 'YYYY-MM-DD',
+    hijri: 'iYYYY-iMM-iDD',
+};
+
+const HIJRI_MONTH_NAMES: { [language in PlaceholderLanguage]: string[] } = {
+    fa: [
+        'محرم', 'صفر', 'ربیع‌الاول', 'ربیع‌الثانی', 'جمادی‌الاول', 'جمادی‌الثانی',
+        'رجب', 'شعبان', 'رمضان', 'شوال', 'ذی‌القعده', 'ذی‌الحجه'
+    ],
+    en: [
+        'Muharram', 'Safar', 'Rabi al-Awwal', 'Rabi al-Thani', 'Jumada al-Awwal', 'Jumada al-Thani',
+        'Rajab', 'Shaban', 'Ramadan', 'Shawwal', 'Dhu al-Qadah', 'Dhu al-Hijjah'
+    ],
+};
+
+/**
+ * Split the text between the braces into a name and its arguments. Returns null when a
+ * modifier is not known, so the placeholder is left for another plugin.
+ */
+export function parsePlaceholder(body: string): ParsedPlaceholder | null {
+    const trimmed = body.trim();
+    const english = trimmed.toLowerCase().startsWith(ENGLISH_PREFIX);
+    const match = (english ? trimmed.slice(ENGLISH_PREFIX.length) : body).match(/^([^|:]+)(?:\|([^:]*))?(?::([\s\S]*))?$/);
+    if (!match) {
+        return null;
+    }
+    const parsed: ParsedPlaceholder = { name: match[1].trim(), offsets: [] };
+    const offsetStart = match[1].search(/[+-]\s*[0-9۰-۹]/);
+    if (offsetStart > 0) {
+        // Names may contain dashes themselves, so the tail only counts when it is all offsets
+        const offsets = parseOffsets(match[1].slice(offsetStart));
+        if (offsets) {
+            parsed.name = match[1].slice(0, offsetStart).trim();
+            parsed.offsets = offsets;
+        }
+    }
+    if (english) {
+        parsed.name = ENGLISH_PLACEHOLDER_NAMES[parsed.name.toLowerCase()] ?? parsed.name;
+    }
+    if (!parsed.name) {
+        return null;
+    }
+
+    if (match[2] !== undefined) {
+        for (const modifier of match[2].split(',').map(part => part.trim().toLowerCase())) {
+            if (CALENDAR_MODIFIERS[modifier]) {
+                parsed.calendar = CALENDAR_MODIFIERS[modifier];
+            } else if (LANGUAGE_MODIFIERS[modifier]) {
+                parsed.language = LANGUAGE_MODIFIERS[modifier];
+            } else if (EXISTING_MODIFIERS.includes(modifier)) {
+                parsed.existingOnly = true;
+            } else {
+                return null;
+            }
+        }
+    }
+    if (match[3] !== undefined && match[3].trim() !== '') {
+        parsed.format = match[3];
+    }
+    return parsed;
+}
+
+function parseOffsets(text: string): PlaceholderOffset[] | null {
+    const offsets: PlaceholderOffset[] = [];
+    let rest = text;
+    while (rest.trim() !== '') {
+        const match = rest.match(OFFSET_PATTERN);
+        const unit = match ? OFFSET_UNITS[match[3].toLowerCase()] : undefined;
+        if (!match || !unit) {
+            return null;
+        }
+        const amount = parseInt(toLatinDigits(match[2]));
+        offsets.push({ amount: match[1] === '-' ? -amount : amount, unit });
+        rest = rest.slice(match[0].length);
+    }
+    return offsets;
+}
+
+/**
+ * Move a day by the offsets in order. Months, quarters and years are Jalaali ones and keep
+ * the day of month, or use the last day of shorter months.
+ */
+export function shiftJalaaliDate(date: JalaaliDate, offsets: PlaceholderOffset[]): JalaaliDate {
+    return offsets.reduce((current, offset) => {
+        if (offset.unit === 'day' || offset.unit === 'week') {
+            const { gy, gm, gd } = jalaali.toGregorian(current.jy, current.jm, current.jd);
+            const shifted = new Date(Date.UTC(gy, gm - 1, gd + offset.amount * (offset.unit === 'week' ? 7 : 1)));
+            return jalaali.toJalaali(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+        }
+        const months = offset.amount * (offset.unit === 'month' ? 1 : offset.unit === 'quarter' ? 3 : 12);
+        const monthIndex = current.jy * 12 + current.jm - 1 + months;
+        const jy = Math.floor(monthIndex / 12);
+        const jm = monthIndex - jy * 12 + 1;
+        return { jy, jm, jd: Math.min(current.jd, jalaali.jalaaliMonthLength(jy, jm)) };
+    }, date);
+}
+
+export function toPersianDigits(text: string): string {
+    return text.replace(/[0-9]/g, digit => String.fromCharCode(0x06F0 + Number(digit)));
+}
+
+/**
+ * Digits of a result by the language modifier: Persian for fa, Latin otherwise
+ */
+export function applyPlaceholderDigits(text: string, language: PlaceholderLanguage | undefined): string {
+    return language === 'fa' ? toPersianDigits(text) : toLatinDigits(text);
+}
+
+/**
+ * Format a day with the placeholder's arguments. `defaultFormat` is used when neither a
+ * format nor a calendar is given, e.g. `dddd` for the weekday placeholders.
+ */
+export function formatPlaceholderDate(
+    date: JalaaliDate,
+    args: PlaceholderArguments,
+    settings: Pick<PluginSettings, 'hijriCalendarType' | 'hijriDateAdjustment'>,
+    defaultFormat?: string
+): string {
+    const calendar = args.calendar ?? 'jalali';
+    const language = args.language ?? 'fa';
+    let format = args.format ?? (args.calendar ? DEFAULT_FORMATS[calendar] : defaultFormat ?? DEFAULT_FORMATS.jalali);
+
+    if (/i(YYYY|YY|M|D)/.test(format)) {
+        // Hijri tokens are filled in here so they follow the configured Hijri calendar
+        const hijri = getHijriDate(date, settings.hijriCalendarType, settings.hijriDateAdjustment);
+        const pad = (value: number) => `0${value}`.slice(-2);
+        const values: { [token: string]: string } = {
+            'iYYYY': String(hijri.hy),
+            'iYY': pad(hijri.hy % 100),
+            'iMMMM': HIJRI_MONTH_NAMES[language][hijri.hm - 1],
+            'iMMM': HIJRI_MONTH_NAMES[language][hijri.hm - 1],
+            'iMM': pad(hijri.hm),
+            'iM': String(hijri.hm),
+            'iDD': pad(hijri.hd),
+            'iD': String(hijri.hd),
+        };
+        format = format.replace(/iYYYY|iYY|iMMMM|iMMM|iMM|iM|iDD|iD/g, token => `[${values[token]}]`);
+    }
+
+    if (language === 'fa') {
+        moment.loadPersian({ usePersianDigits: false, dialect: 'persian-modern' });
+    }
+    const gregorian = jalaali.toGregorian(date.jy, date.jm, date.jd);
+    const formatted = moment(`${gregorian.gy}-${gregorian.gm}-${gregorian.gd}`, 'YYYY-M-D').locale(language).format(format);
+    return applyPlaceholderDigits(formatted, args.language);
+}
+
+/**
+ * Split a note into its frontmatter block, delimiters included, and the rest
+ */
+export function splitFrontmatter(content: string): { frontmatter: string, body: string } {
+    const match = content.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/);
+    return match
+        ? { frontmatter: match[0], body: content.slice(match[0].length) }
+        : { frontmatter: '', body: content };
+}
+
+/**
+ * Quote frontmatter values that start with a placeholder `isExpanded` accepts. Unquoted, YAML
+ * reads `date: {{امروز}}` as a nested mapping instead of the placeholder text. Values starting
+ * with other placeholders are left as they are for other plugins.
+ */
+export function quoteFrontmatterPlaceholders(frontmatter: string, isExpanded: (placeholder: string) => boolean): string {
+    return frontmatter.replace(
+        /^([ \t]*(?:-[ \t]+|[^\s#'"][^:\n]*:[ \t]+))((\{\{[^{}\n]+\}\})[^\n]*?)[ \t]*$/gm,
+        (line: string, prefix: string, value: string, placeholder: string) => isExpanded(placeholder)
+            ? `${prefix}'${value.replace(/'/g, "''")}'`
+            : line
+    );
+}
+
+/**
+ * Expand the placeholders in a frontmatter value, lists and nested objects included. A value
+ * that is a single placeholder gets a YAML type from its result: numbers stay numbers and
+ * bulleted lines (such as a list of links) become a list.
+ */
+export function expandFrontmatterValue(value: unknown, expand: (text: string) => string): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => expandFrontmatterValue(item, expand));
+    }
+    if (value !== null && typeof value === 'object') {
+        const expanded: { [key: string]: unknown } = {};
+        Object.entries(value as { [key: string]: unknown }).forEach(([key, item]) => {
+            expanded[key] = expandFrontmatterValue(item, expand);
+        });
+        return expanded;
+    }
+    if (typeof value !== 'string' || !value.includes('{{')) {
+        return value;
+    }
+
+    const result = expand(value);
+    if (result === value || !/^\{\{[^{}]+\}\}$/.test(value.trim())) {
+        return result;
+    }
+    if (/^-?\d+$/.test(result)) {
+        return parseInt(result);
+    }
+    const lines = result.split('\n');
+    if (lines.every(line => line.startsWith('- '))) {
+        return lines.map(line => line.slice(2));
+    }
+    return result;
+}
@@ -11,6 +11,12 @@ interface PluginSettings {
     monthlyNotesFormat: string;
     quarterlyNotesFormat: string;
     yearlyNotesFormat: string;
+    dailyNoteTemplate: string;
+    weeklyNoteTemplate: string;
+    monthlyNoteTemplate: string;
+    quarterlyNoteTemplate: string;
+    yearlyNoteTemplate: string;
+    periodicNoteDateProperties: string;
     version: string;
     announceUpdates: boolean;
     showGeorgianDates: boolean;
@@ -23,6 +29,14 @@ interface PluginSettings {
     showAncientIranianCalendar: boolean;
     showShiaCalendar: boolean;
     hijriCalendarType: string;
+    agendaDisplay: string;
+    agendaDays: number;
+    customEventsPath: string;
+    anniversaryFrontmatterKeys: string;
+    icsFolderPath: string;
+    suggesterTrigger: string;
+    suggesterRequireWordBoundary: boolean;
+    suggesterOutputStyle: string;
 }
 
 export interface HolidayEvent {
@@ -46,6 +60,12 @@ const DEFAULT_SETTINGS: PluginSettings = {
     monthlyNotesFormat: 'YYYY-MM',
     quarterlyNotesFormat: 'YYYY-[Q]Q',
     yearlyNotesFormat: 'YYYY',
+    dailyNoteTemplate: '',
+    weeklyNoteTemplate: '',
+    monthlyNoteTemplate: '',
+    quarterlyNoteTemplate: '',
+    yearlyNoteTemplate: '',
+    periodicNoteDateProperties: '',
     version: `0.0.0`,
     timeoutDuration: 1250,
     announceUpdates: true,
@@ -58,8 +78,24 @@ const DEFAULT_SETTINGS: PluginSettings = {
     showAncientIranianCalendar: true,
     showShiaCalendar: true,
     hijriCalendarType: 'iran',
+    agendaDisplay: 'hidden',
+    agendaDays: 14,
+    customEventsPath: '',
+    anniversaryFrontmatterKeys: 'birthday, born',
+    icsFolderPath: '',
+    suggesterTrigger: '@',
+    suggesterRequireWordBoundary: false,
+    suggesterOutputStyle: 'wikilink',
 };
 
+export interface CalendarEvent {
+    title: string;
+    isHoliday: boolean;
+    type: string;
+    category?: string;
+    color?: string;
+}
+
 export interface HijriAdjustments {
     [year: number]: {
         [month: number]: number;
@@ -1,9 +1,13 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, debounce } from 'obsidian';
 import PersianCalendarPlugin from './main';
 import { PluginSettings } from './settings';
+import { ENGLISH_PLACEHOLDER_NAMES } from './placeholdersyntax';
 
 export default class PersianCalendarSettingTab extends PluginSettingTab {
     plugin: PersianCalendarPlugin;
+    // Reloading reads every source file, so it waits until the path is no longer being typed
+    private reloadCustomEvents = debounce(() => this.plugin.reloadCustomEvents(), 1000, true);
+    private reloadIcsCalendars = debounce(() => this.plugin.reloadIcsCalendars(), 1000, true);
 
     constructor(app: App, plugin: PersianCalendarPlugin) {
         super(app, plugin);
@@ -25,6 +29,7 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
         this.addPathSetting(containerEl, 'مسیر روزنوشت‌ها', 'dailyNotesFolderPath');
         this.addFormatSetting(containerEl, 'فرمت نام فایل روزنوشت‌ها', 'dailyNotesFormat', 
             'فرمت نام فایل و پوشه‌بندی روزنوشت‌ها. مثال: YYYY/MM/YYYY-MM-DD برای ایجاد پوشه سال/ماه');
+        this.addTemplateSetting(containerEl, 'قالب روزنوشت‌ها', 'dailyNoteTemplate');
         new Setting(containerEl)
         .setName('فرمت نام‌گذاری و شناسایی روزنوشت‌ها')
         .setDesc('مشخص کنید روزنوشت‌ها با چه فرمتی نام‌گذاری شوند. این نام در Title روزنوشت‌ها قرار می‌گیرد.')
@@ -40,15 +45,19 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
         this.addPathSetting(containerEl, 'مسیر هفته‌نوشت‌ها', 'weeklyNotesFolderPath');
         this.addFormatSetting(containerEl, 'فرمت نام فایل هفته‌نوشت‌ها', 'weeklyNotesFormat',
             'فرمت نام فایل و پوشه‌بندی هفته‌نوشت‌ها. مثال: YYYY/YYYY-[W]WW');
+        this.addTemplateSetting(containerEl, 'قالب هفته‌نوشت‌ها', 'weeklyNoteTemplate');
         this.addPathSetting(containerEl, 'مسیر ماه‌نوشت‌ها', 'monthlyNotesFolderPath');
         this.addFormatSetting(containerEl, 'فرمت نام فایل ماه‌نوشت‌ها', 'monthlyNotesFormat',
             'فرمت نام فایل و پوشه‌بندی ماه‌نوشت‌ها. مثال: YYYY/YYYY-MM');
+        this.addTemplateSetting(containerEl, 'قالب ماه‌نوشت‌ها', 'monthlyNoteTemplate');
         this.addPathSetting(containerEl, 'مسیر فصل‌نوشت‌ها', 'quarterlyNotesFolderPath');
         this.addFormatSetting(containerEl, 'فرمت نام فایل فصل‌نوشت‌ها', 'quarterlyNotesFormat',
             'فرمت نام فایل و پوشه‌بندی فصل‌نوشت‌ها. مثال: YYYY/YYYY-[Q]Q');
+        this.addTemplateSetting(containerEl, 'قالب فصل‌نوشت‌ها', 'quarterlyNoteTemplate');
         this.addPathSetting(containerEl, 'مسیر سال‌نوشت‌ها', 'yearlyNotesFolderPath');
         this.addFormatSetting(containerEl, 'فرمت نام فایل سال‌نوشت‌ها', 'yearlyNotesFormat',
             'فرمت نام فایل و پوشه‌بندی سال‌نوشت‌ها. مثال: YYYY');
+        this.addTemplateSetting(containerEl, 'قالب سال‌نوشت‌ها', 'yearlyNoteTemplate');
         new Setting(containerEl)
             .setName('فعال‌سازی نمایش فصل‌نوشت‌ها در تقویم')
             .setDesc('نمایش یا پنهان کردن ردیف فصل‌نوشت‌ها در نمای تقویم')
@@ -152,11 +161,73 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 })
             );
+
+        new Setting(containerEl)
+            .setName('رویدادهای شخصی')
+            .setDesc('مسیر یک فایل یا پوشه (md، JSON یا YAML) که رویدادهای شخصی شما در آن ثبت شده است. رویدادها می‌توانند شمسی، میلادی یا قمری باشند و در تقویم، تولتیپ و {{مناسبت}} نمایش داده می‌شوند. نمونه در فایل مارک‌داون: - 07-15 تولد سارا [holiday:: true] [category:: خانواده] [color:: #e67e22]')
+            .addText(text => text
+                .setPlaceholder('Calendar/Events.md')
+                .setValue(this.plugin.settings.customEventsPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.customEventsPath = value;
+                    await this.plugin.saveSettings();
+                    this.reloadCustomEvents();
+                }));
+
+        new Setting(containerEl)
+            .setName('کلیدهای تولد و سالگرد')
+            .setDesc('کلیدهای فرانت‌متر (با ویرگول جدا کنید) که تاریخ تولد یا سالگرد در آن‌ها ثبت شده است، مثل birthday: 1370-06-15 یا born: 1991-09-06. سال‌های بزرگتر از 1500 میلادی و بقیه شمسی در نظر گرفته می‌شوند. این رویدادها هر سال به همراه تعداد سال‌های گذشته نمایش داده می‌شوند.')
+            .addText(text => text
+                .setPlaceholder('birthday, born')
+                .setValue(this.plugin.settings.anniversaryFrontmatterKeys)
+                .onChange(async (value) => {
+                    this.plugin.settings.anniversaryFrontmatterKeys = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshViews();
+                }));
+
+        new Setting(containerEl)
+            .setName('پوشه تقویم‌های ICS')
+            .setDesc('رویدادهای فایل‌های .ics این پوشه (مثلا تقویم کاری که از گوگل یا اوت‌لوک خروجی گرفته‌اید) با زمان محلی در تقویم و تولتیپ نمایش داده می‌شوند. رویدادهای تکرارشونده هم پشتیبانی می‌شوند.')
+            .addText(text => text
+                .setPlaceholder('Calendars')
+                .setValue(this.plugin.settings.icsFolderPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.icsFolderPath = value;
+                    await this.plugin.saveSettings();
+                    this.reloadIcsCalendars();
+                }));
         
 
+        new Setting(containerEl)
+            .setName('نمایش رویدادهای پیش رو')
+            .setDesc('فهرست رویدادها و تعطیلات روزهای آینده را زیر تقویم یا به جای آن نمایش دهید. با کلیک روی هر روز، روزنوشت آن باز می‌شود.')
+            .addDropdown(dropdown => dropdown
+                .addOption('hidden', 'نمایش داده نشود')
+                .addOption('below', 'زیر تقویم')
+                .addOption('instead', 'به جای تقویم')
+                .setValue(this.plugin.settings.agendaDisplay)
+                .onChange(async (value) => {
+                    this.plugin.settings.agendaDisplay = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshViews();
+                }));
+
+        new Setting(containerEl)
+            .setName('تعداد روزهای رویدادهای پیش رو')
+            .setDesc('رویدادهای چند روز آینده در فهرست رویدادهای پیش رو نمایش داده شود. (مقدار پیش‌فرض: 14 روز)')
+            .addText(text => text
+                .setPlaceholder('14')
+                .setValue(this.plugin.settings.agendaDays.toString())
+                .onChange(async (value) => {
+                    this.plugin.settings.agendaDays = parseInt(value);
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshViews();
+                }));
+
         new Setting(containerEl)
         .setName('مدت زمان تاخیر در اجرای {{عبارت‌های معنادار}}')
-        .setDesc('{{عبارت‌های معنادار}} پس از ساخته شدن فایل با تاخیر زمانی اجرا می‌گردند. در سیستم‌های با قدرت پایین تر این مقدار را افزایش دهید. (مقدار پیش‌فرض: 1250 میلی‌ثانیه)')
+        .setDesc('یادداشت‌هایی که خالی ساخته می‌شوند (مثلا با تمپلیتر یا افزونه قالب‌ها) تا این مدت منتظر نوشته شدن قالب می‌مانند و {{عبارت‌های معنادار}} در اولین تغییر جایگزین می‌شوند. یادداشت‌هایی که تقویم با قالب خودش می‌سازد منتظر نمی‌مانند. در سیستم‌های با قدرت پایین تر این مقدار را افزایش دهید. (مقدار پیش‌فرض: 1250 میلی‌ثانیه)')
         .addText(text => text
             .setPlaceholder('Enter timeout duration')
             .setValue(this.plugin.settings.timeoutDuration.toString())
@@ -164,6 +235,52 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
                 this.plugin.settings.timeoutDuration = parseInt(value);
                 await this.plugin.saveSettings();
             }));
+
+        new Setting(containerEl)
+            .setName('نویسه شروع پیشنهاد تاریخ')
+            .setDesc('با تایپ این نویسه یا عبارت، فهرست پیشنهاد تاریخ باز می‌شود؛ مثلا @@ یا // تا با نشانی ایمیل و منشن‌ها تداخل نداشته باشد. (مقدار پیش‌فرض: @)')
+            .addText(text => text
+                .setPlaceholder('@')
+                .setValue(this.plugin.settings.suggesterTrigger)
+                .onChange(async (value) => {
+                    this.plugin.settings.suggesterTrigger = value || '@';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('پیشنهاد تاریخ فقط در ابتدای کلمه')
+            .setDesc('اگر فعال باشد، پیشنهاد تاریخ فقط وقتی باز می‌شود که نویسه شروع در ابتدای خط یا بعد از فاصله تایپ شود؛ مثلا در ali@example.com باز نمی‌شود.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.suggesterRequireWordBoundary)
+                .onChange(async (value) => {
+                    this.plugin.settings.suggesterRequireWordBoundary = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('خروجی پیشنهاد تاریخ')
+            .setDesc('مشخص کنید با انتخاب یک پیشنهاد تاریخ (یا تبدیل متن انتخاب‌شده به تاریخ) چه چیزی در یادداشت نوشته شود.')
+            .addDropdown(dropdown => dropdown
+                .addOption('wikilink', 'ویکی‌لینک با نام مستعار')
+                .addOption('markdown', 'لینک مارک‌داون')
+                .addOption('text', 'تاریخ به صورت متن')
+                .addOption('dual', 'تاریخ شمسی و میلادی')
+                .setValue(this.plugin.settings.suggesterOutputStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.suggesterOutputStyle = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('ویژگی‌های تاریخ در یادداشت‌های دوره‌ای')
+            .setDesc('این ویژگی‌ها (با ویرگول جدا کنید) هنگام ساخت هر روزنوشت، هفته‌نوشت، ماه‌نوشت، فصل‌نوشت یا سال‌نوشت به فرانت‌متر آن اضافه می‌شوند. ویژگی‌های قابل استفاده: jalali، gregorian، hijri، weekday، week، month، quarter و year. ویژگی‌هایی که یادداشت از قبل دارد تغییر نمی‌کنند.')
+            .addText(text => text
+                .setPlaceholder('jalali, gregorian, hijri, week')
+                .setValue(this.plugin.settings.periodicNoteDateProperties)
+                .onChange(async (value) => {
+                    this.plugin.settings.periodicNoteDateProperties = value;
+                    await this.plugin.saveSettings();
+                }));
         
         
         const githubadvice = containerEl.createEl('p');
@@ -179,9 +296,19 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
         formatHelp.createEl('br');
         formatHelp.appendText('WW: شماره هفته، Q: شماره فصل');
         formatHelp.createEl('br');
+        formatHelp.appendText('MMMM: نام ماه، dddd: نام روز هفته، [متن]: متن ثابت (مثال: YYYY-[W]WW)');
+        formatHelp.createEl('br');
         formatHelp.appendText('برای ایجاد پوشه‌های جداگانه از "/" استفاده کنید. مثال: YYYY/MM/YYYY-MM-DD');
         formatHelp.createEl('br');
         formatHelp.appendText('توجه: عبارت‌های معنادار ({{این روز}}) با فرمت‌های استاندارد (YYYY-MM-DD) بهتر کار می‌کنند.');
+
+        containerEl.createEl('h4', { text: 'راهنمای عبارت‌های معنادار' });
+        const placeholderHelp = containerEl.createEl('p');
+        placeholderHelp.appendText('هر عبارت معنادار یک نام انگلیسی هم با پیشوند pc: دارد که برای صفحه‌کلید انگلیسی یا موتورهای قالبی که متن راست‌به‌چپ را به هم می‌ریزند مناسب است. قالب، محاسبه تاریخ و تنظیمات اضافه در هر دو شکل کار می‌کنند، مثلا {{pc:today+7|gregorian:YYYY/MM/DD}}.');
+        Object.entries(ENGLISH_PLACEHOLDER_NAMES).forEach(([alias, name]) => {
+            placeholderHelp.createEl('br');
+            placeholderHelp.appendText(`{{${name}}} = {{pc:${alias}}}`);
+        });
         
         containerEl.createEl('p', { text: 'مسیرها را قبل از تنظیم کردن در ابسیدین ایجاد کنید. مسیرها باید بدون "/" در ابتدای آن باشد.' });
         containerEl.createEl('p', { text: 'برای اعمال تغییرات، لازم است تقویم را از تنظیمات ابسیدین مجددا فعال کنید.' });
@@ -219,6 +346,20 @@ export default class PersianCalendarSettingTab extends PluginSettingTab {
                 }));
     }
 
+    addTemplateSetting(containerEl: HTMLElement, name: string, settingKey: keyof PluginSettings) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc('مسیر فایل قالب. محتوای قالب با {{عبارت‌های معنادار}} جایگزین‌شده در یادداشت جدید قرار می‌گیرد. برای یادداشت خالی، خالی بگذارید.')
+            .addText(text => text
+                .setPlaceholder('Templates/Daily.md')
+                .setValue(this.plugin.settings[settingKey] as string)
+                .onChange(async (value) => {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    (this.plugin.settings as any)[settingKey] = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
     addFormatSetting(containerEl: HTMLElement, name: string, settingKey: keyof PluginSettings, description: string) {
         new Setting(containerEl)
             .setName(name)
@@ -1,10 +1,43 @@
-/* eslint-disable no-case-declarations */
 import {EditorSuggest, EditorPosition, Editor, EditorSuggestTriggerInfo, EditorSuggestContext, TFile, MarkdownView, Notice} from 'obsidian';
-import { toJalaali } from 'jalaali-js';
 import PersianCalendarPlugin from './main';
-import moment from 'moment-jalaali';
+import { getTodayJalaali } from './calendar';
+import { DateTarget, describeDateTarget, findDateTrigger, findNamedDays, formatDateTarget, getWeekdayIndex, normalizeDatePhrase, parseDatePhrase } from './dateparser';
+import { getPeriodicNotePath } from './periodicnotes';
+import { formatPlaceholderDate, toPersianDigits } from './placeholdersyntax';
+import { getCalendarEventsForDate, isWeekendDay } from './events';
 
-export default class DateSuggester extends EditorSuggest<string> {
+/**
+ * A suggestion of the @ menu: the text to show and use as the link alias, and the note it points to
+ */
+export interface DateSuggestion {
+    label: string;
+    target: DateTarget;
+}
+
+const KEYWORDS = ['امروز','فردا', 'دیروز', 'پریروز', 'پس‌فردا',
+                    'شنبه', 'شنبه بعد', 'شنبه قبل',
+                    'یکشنبه', 'یکشنبه بعد', 'یکشنبه قبل',
+                    'دوشنبه', 'دوشنبه بعد', 'دوشنبه قبل',
+                    'سه‌شنبه', 'سه‌شنبه بعد', 'سه‌شنبه قبل',
+                    'چهارشنبه', 'چهارشنبه بعد', 'چهارشنبه قبل',
+                    'پنج‌شنبه', 'پنج‌شنبه بعد', 'پنج‌شنبه قبل',
+                    'جمعه', 'جمعه بعد', 'جمعه قبل'
+                    ,'این هفته', 'هفته قبل', 'هفته بعد', 
+                    'این ماه', 'ماه قبل', 'ماه بعد',
+                    'این فصل', 'فصل قبل', 'فصل بعد',
+                    'امسال', 'سال قبل', 'سال بعد'];
+
+// Offered once an English query is typed, so they do not crowd the Persian list
+const ENGLISH_KEYWORDS = ['today', 'tomorrow', 'yesterday',
+                    'saturday', 'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday',
+                    'next saturday', 'next sunday', 'next monday', 'next tuesday', 'next wednesday', 'next thursday', 'next friday',
+                    'last saturday', 'last sunday', 'last monday', 'last tuesday', 'last wednesday', 'last thursday', 'last friday',
+                    'this week', 'last week', 'next week',
+                    'this month', 'last month', 'next month',
+                    'this quarter', 'last quarter', 'next quarter',
+                    'this year', 'last year', 'next year'];
+
+export default class DateSuggester extends EditorSuggest<DateSuggestion> {
     plugin: PersianCalendarPlugin;  
 
     constructor(plugin: PersianCalendarPlugin) {
@@ -13,169 +46,105 @@ export default class DateSuggester extends EditorSuggest<string> {
     }
 
     onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        const { suggesterTrigger, suggesterRequireWordBoundary } = this.plugin.settings;
         const line = editor.getLine(cursor.line);
-        const atIndex = line.lastIndexOf('@', cursor.ch);
-        if (atIndex !== -1 && atIndex < cursor.ch) {
-            return {
-                start: { line: cursor.line, ch: atIndex },
-                end: cursor,
-                query: line.substring(atIndex + 1, cursor.ch)
-            };
+        const start = findDateTrigger(line, cursor.ch, suggesterTrigger, suggesterRequireWordBoundary);
+        if (start === -1) {
+            return null;
         }
-        return null;
+        return {
+            start: { line: cursor.line, ch: start },
+            end: cursor,
+            query: line.substring(start + suggesterTrigger.length, cursor.ch)
+        };
     }
 
-    public calculateCurrentWeekNumber(jalaaliDate: {jy: number, jm: number, jd: number}): number {
-        moment.loadPersian({usePersianDigits: false, dialect: 'persian-modern'});
-        const currentDate = moment(`${jalaaliDate.jy}/${jalaaliDate.jm}/${jalaaliDate.jd}`, 'jYYYY/jM/jD');
-        const currentWeekNumber = currentDate.jWeek();
-        return currentWeekNumber;
-    }
+    /**
+     * The phrase typed after the trigger when it can be read as a date, then the keywords and named
+     * days starting with it
+     */
+    getSuggestions(context: EditorSuggestContext): DateSuggestion[] | Promise<DateSuggestion[]> {
+        const today = getTodayJalaali();
+        const settings = this.plugin.settings;
+        const query = normalizeDatePhrase(context.query);
+        const suggestions: DateSuggestion[] = [];
+        const add = (label: string, target: DateTarget | null) => {
+            if (target && !suggestions.some(suggestion => normalizeDatePhrase(suggestion.label) === normalizeDatePhrase(label))) {
+                suggestions.push({ label, target });
+            }
+        };
 
-    getSuggestions(context: EditorSuggestContext): string[] | Promise<string[]> {
-        const query = context.query.toLowerCase();
-        const suggestions = ['امروز','فردا', 'دیروز', 'پریروز', 'پس‌فردا',
-                            'شنبه', 'شنبه بعد', 'شنبه قبل',
-                            'یکشنبه', 'یکشنبه بعد', 'یکشنبه قبل',
-                            'دوشنبه', 'دوشنبه بعد', 'دوشنبه قبل',
-                            'سه‌شنبه', 'سه‌شنبه بعد', 'سه‌شنبه قبل',
-                            'چهارشنبه', 'چهارشنبه بعد', 'چهارشنبه قبل',
-                            'پنج‌شنبه', 'پنج‌شنبه بعد', 'پنج‌شنبه قبل',
-                            'جمعه', 'جمعه بعد', 'جمعه قبل'
-                            ,'این هفته', 'هفته قبل', 'هفته بعد', 
-                            'این ماه', 'ماه قبل', 'ماه بعد',
-                            'این فصل', 'فصل قبل', 'فصل بعد',
-                            'امسال', 'سال قبل', 'سال بعد'];
-        return suggestions.filter(suggestion => suggestion.startsWith(query));
+        if (query) {
+            add(context.query.trim(), parseDatePhrase(query, today, settings));
+        }
+        KEYWORDS.concat(query ? ENGLISH_KEYWORDS : [])
+            .filter(keyword => normalizeDatePhrase(keyword).startsWith(query))
+            .forEach(keyword => add(keyword, parseDatePhrase(keyword, today, settings)));
+        if (query) {
+            findNamedDays(query, today, settings).forEach(({ name, target }) => add(name, target));
+        }
+        return suggestions;
     }
 
-    renderSuggestion(value: string, el: HTMLElement): void {
-        const suggestionSpan = el.createSpan();
-        suggestionSpan.textContent = value.charAt(0).toUpperCase() + value.slice(1); 
-    }
+    /**
+     * The phrase with the date it resolves to, whether its note exists and, for days, the
+     * Gregorian and Hijri dates and the events shown in the calendar
+     */
+    renderSuggestion(suggestion: DateSuggestion, el: HTMLElement): void {
+        const { kind, date } = suggestion.target;
+        const settings = this.plugin.settings;
+        const events = kind === 'daily' ? getCalendarEventsForDate(this.plugin, date, years => toPersianDigits(String(years))) : [];
+        const exists = this.plugin.app.vault.getAbstractFileByPath(getPeriodicNotePath(settings, kind, date)) instanceof TFile;
 
-    getFormattedDateLink(keyword: string, date: Date ) {
-        const now = new Date();
-        let dateText = '';
-        const formatDate = (date: Date) => {
-            const jalaaliDate = toJalaali(date);
-            if (this.plugin.settings.dateFormat === 'georgian') {
-                return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
-            } else {
-                return `${jalaaliDate.jy}-${jalaaliDate.jm.toString().padStart(2, '0')}-${jalaaliDate.jd.toString().padStart(2, '0')}`;
+        el.addClass('calendar-suggestion');
+        const headerEl = el.createDiv({ cls: 'calendar-suggestion-header' });
+        headerEl.createSpan({ cls: 'calendar-suggestion-label', text: suggestion.label });
+        headerEl.createSpan({ cls: 'calendar-suggestion-note', text: exists ? 'یادداشت موجود' : 'یادداشت جدید' });
+        if (exists) {
+            el.addClass('has-note');
+        }
+
+        const dateEl = el.createDiv({ cls: 'calendar-suggestion-date', text: describeDateTarget(suggestion.target, settings) });
+        const isHoliday = (settings.showHolidays && events.some(event => event.isHoliday))
+            || (kind === 'daily' && isWeekendDay(settings.weekendDays, getWeekdayIndex(date)));
+        if (isHoliday) {
+            dateEl.addClass('is-holiday');
+        }
+        if (kind === 'daily') {
+            const gregorian = formatPlaceholderDate(date, { format: 'D MMMM YYYY', language: 'fa' }, settings);
+            const hijri = formatPlaceholderDate(date, { format: 'iD iMMMM iYYYY', language: 'fa' }, settings);
+            el.createDiv({ cls: 'calendar-suggestion-other-dates', text: `${gregorian} | ${hijri}` });
+        }
+        events.forEach(event => {
+            const eventEl = el.createDiv({ cls: 'calendar-suggestion-event', text: event.title });
+            if (event.color) {
+                eventEl.style.color = event.color;
+            } else if (event.isHoliday) {
+                eventEl.addClass('is-holiday');
             }
-        };
-    
-        const formatWeek = (date: Date) => {
-            const jalaaliDate = toJalaali(date);
-            const weekNumber = this.calculateCurrentWeekNumber(jalaaliDate);
-            return `${jalaaliDate.jy}-W${weekNumber.toString().padStart(1, '0')}`;
-        };
-    
-        const formatMonth = (date: Date) => {
-            const jalaaliDate = toJalaali(date);
-            return `${jalaaliDate.jy}-${jalaaliDate.jm.toString().padStart(2, '0')}`;
-        };
-    
-        const formatQuarter = (date: Date) => {
-            const jalaaliDate = toJalaali(date);
-            let quarterNum = 1;
-            const month = jalaaliDate.jm;
-            if (month >= 1 && month <= 3) quarterNum = 1;
-            else if (month >= 4 && month <= 6) quarterNum = 2;
-            else if (month >= 7 && month <= 9) quarterNum = 3;
-            else if (month >= 10 && month <= 12) quarterNum = 4;   
-            return `${jalaaliDate.jy}-Q${quarterNum}`;
-        };
-    
-        const formatYear = (date: Date) => {
-            const jalaaliDate = toJalaali(date);
-            return `${jalaaliDate.jy}`;
-        };
+        });
+    }
 
-        const weekdayNames = ["شنبه", "یکشنبه", "دوشنبه", "سه‌شنبه", "چهارشنبه", "پنج‌شنبه", "جمعه"];
-        const regex = /(دوشنبه|یکشنبه|سه‌شنبه|چهارشنبه|پنج‌شنبه|شنبه|جمعه)( بعد| قبل)?/;
-        const match = keyword.match(regex);
-    
-        if (match) {
-            const weekdayName = match[1]; 
-            const specifier = match[2] || ""; 
-            const weekdayIndex = weekdayNames.indexOf(weekdayName);
-            const currentDayOfWeek = now.getDay(); 
-            const daysFromNowToWeekday = (weekdayIndex + 6 - currentDayOfWeek) % 7;
-    
-            if (specifier.includes("بعد")) {
-                now.setDate(now.getDate() + daysFromNowToWeekday + 7); 
-            } else if (specifier.includes("قبل")) {
-                now.setDate(now.getDate() + daysFromNowToWeekday - 7); 
-            } else {
-                now.setDate(now.getDate() + daysFromNowToWeekday); 
-            }   
-            dateText = formatDate(now);
-            const formatSpecifier = specifier ? ` ${specifier.trim()}` : '';
-            return `[[${dateText}|${weekdayName}${formatSpecifier}]]`;
-        } else {
-        switch (keyword) {
-            default:
+    /**
+     * Link to the note a date phrase points to, with the phrase as alias
+     */
+    getFormattedDateLink(keyword: string): string {
+        const target = parseDatePhrase(keyword, getTodayJalaali(), this.plugin.settings);
+        if (!target) {
             return '[تاریخ شناسایی نشد! برای مشاهده راهنما کلیک کنید](https://github.com/maleknejad/obsidian-persian-calendar) ';
-            case 'امروز':
-            case 'فردا':
-            case 'دیروز':
-            case 'پریروز':
-            case 'پس‌فردا':
-                const dateAdjustment = {
-                    'امروز': 0,
-                    'فردا': 1,
-                    'دیروز': -1,
-                    'پریروز': -2,
-                    'پس‌فردا': 2,
-                }[keyword];
-                date.setDate(date.getDate() + dateAdjustment);
-                return `[[${formatDate(date)}|${keyword}]]`;
-    
-            case 'این هفته':
-                return `[[${formatWeek(new Date())}|${keyword}]]`;
-    
-            case 'هفته قبل':
-                return `[[${formatWeek(new Date(new Date().setDate(new Date().getDate() - 7)))}|${keyword}]]`;
-    
-            case 'هفته بعد':
-                return `[[${formatWeek(new Date(new Date().setDate(new Date().getDate() + 7)))}|${keyword}]]`;
-    
-            case 'این ماه':
-                return `[[${formatMonth(new Date())}|${keyword}]]`;
-    
-            case 'ماه قبل':
-                return `[[${formatMonth(new Date(new Date().setMonth(new Date().getMonth() - 1)))}|${keyword}]]`;
-    
-            case 'ماه بعد':
-                return `[[${formatMonth(new Date(new Date().setMonth(new Date().getMonth() + 1)))}|${keyword}]]`;
-    
-            case 'این فصل':
-                return `[[${formatQuarter(new Date())}|${keyword}]]`;
-    
-            case 'فصل قبل':
-                return `[[${formatQuarter(new Date(new Date().setMonth(new Date().getMonth() - 3)))}|${keyword}]]`;
-    
-            case 'فصل بعد':
-                return `[[${formatQuarter(new Date(new Date().setMonth(new Date().getMonth() + 3)))}|${keyword}]]`;
-    
-            case 'امسال':
-                return `[[${formatYear(new Date())}|${keyword}]]`;
-    
-            case 'سال قبل':
-                return `[[${formatYear(new Date(new Date().setFullYear(new Date().getFullYear() - 1)))}|${keyword}]]`;
-    
-            case 'سال بعد':
-                return `[[${formatYear(new Date(new Date().setFullYear(new Date().getFullYear() + 1)))}|${keyword}]]`;
         }
+        return this.formatTargetLink(target, keyword.trim());
     }
+
+    /**
+     * The link or text inserted for a target, in the output style of the settings
+     */
+    private formatTargetLink(target: DateTarget, label: string): string {
+        return formatDateTarget(target, label, this.plugin.settings);
     }
-    
 
-    selectSuggestion(value: string, evt: MouseEvent | KeyboardEvent): void {
-        const now = new Date();
-        const linkText = this.getFormattedDateLink(value, now);  // Ensures linkText is always a string
+    selectSuggestion(suggestion: DateSuggestion, evt: MouseEvent | KeyboardEvent): void {
+        const linkText = this.formatTargetLink(suggestion.target, suggestion.label);
     
         const activeView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
         if (activeView) {
@@ -201,7 +170,7 @@ export default class DateSuggester extends EditorSuggest<string> {
         let linkText = '';
     
         try {
-            linkText = this.getFormattedDateLink(selectedText, new Date());
+            linkText = this.getFormattedDateLink(selectedText);
     
             editor.replaceSelection(linkText); // Replace the selected text with the formatted date link
         } catch (error) {
@@ -2,13 +2,16 @@ import { WorkspaceLeaf, Notice, App, View, TFile,MarkdownView } from 'obsidian';
 import { getTodayJalaali } from './calendar';
 import {  toJalaali, jalaaliMonthLength , toGregorian} from 'jalaali-js';
 import * as jalaali from 'jalaali-js';
-import type { PluginSettings , JalaaliDate, HolidayEvent } from './settings'; 
+import type { PluginSettings , JalaaliDate, HolidayEvent, CalendarEvent } from './settings'; 
 import moment from 'moment-jalaali';
 import hijriMoment from 'moment-hijri';
 import PersianCalendarPlugin from './main';
 import { PersianCalendarHolidays, HijriCalendarHolidays, GregorianCalendarHolidays } from './holidays';
-import { iranianHijriAdjustments,basePersianDate, baseHijriDate } from './hijri';
-import { generateNotePath, extractFolderPath, extractDateFromPath, DateFormatComponents } from './dateformat';
+import { getHijriDate } from './hijri';
+import { getCalendarEventsForDate, getCustomEventDate, isWeekendDay } from './events';
+import { generateNotePath, extractFolderPath, DateFormatComponents } from './dateformat';
+import type { PeriodicNoteKind } from './noteindex';
+import type { CustomEvent } from './customevents';
 
 
 
@@ -76,21 +79,26 @@ export default class PersianCalendarView extends View {
         const inputEl = this.containerEl.querySelector('input');
         inputEl?.focus();
     }
-    private currentJalaaliYear: number;
-    private currentJalaaliMonth: number;
+    protected currentJalaaliYear: number;
+    protected currentJalaaliMonth: number;
     
-    private settings: PluginSettings;
+    protected settings: PluginSettings;
 
     public async render() {
         const containerEl = this.containerEl;
         containerEl.empty();
         
         await this.renderHeader(containerEl);
-        const contentEl = containerEl.createEl('div', { cls: 'calendar-content' });
-        await this.renderWeekNumbers(contentEl, this.getCurrentJalaaliDate()); 
+        if (this.settings.agendaDisplay !== 'instead') {
+            const contentEl = containerEl.createEl('div', { cls: 'calendar-content' });
+            await this.renderWeekNumbers(contentEl, this.getCurrentJalaaliDate()); 
             await this.renderDaysGrid(contentEl, this.getCurrentJalaaliDate());
-        if (this.settings.enableQuarterlyNotes) {
-            await this.renderQuarterlyNotesRow(contentEl);
+            if (this.settings.enableQuarterlyNotes) {
+                await this.renderQuarterlyNotesRow(contentEl);
+            }
+        }
+        if (this.settings.agendaDisplay === 'below' || this.settings.agendaDisplay === 'instead') {
+            this.renderAgenda(containerEl);
         }
     }
     
@@ -275,6 +283,7 @@ export default class PersianCalendarView extends View {
                     dayEl.addClass('no-notes');
                 }
                 dayEl.addEventListener('click', () => {
+                    this.plugin.api.trigger('day-clicked', { date: { jy: jalaaliDate.jy, jm: jalaaliDate.jm, jd: dayNumber } });
                     this.openOrCreateDailyNote(dayNumber);
                 });
     
@@ -292,6 +301,15 @@ export default class PersianCalendarView extends View {
                 if (this.plugin.settings.showHolidays && this.isHoliday('HijriCalendar', hijriMonth, parseInt(hijriDate))) {
                     isHoliday = true;
                 }
+                // Check user-defined holidays
+                if (this.plugin.settings.showHolidays && this.getCustomEventsForDate(jalaaliDate.jy, jalaaliDate.jm, dayNumber).some(event => event.holiday)) {
+                    isHoliday = true;
+                }
+                // Mark days with events imported from .ics files
+                const gregorianDay = jalaali.toGregorian(jalaaliDate.jy, jalaaliDate.jm, dayNumber);
+                if (this.plugin.icsCalendars.getOccurrencesForDate(gregorianDay.gy, gregorianDay.gm, gregorianDay.gd).length > 0) {
+                    dayEl.addClass('has-calendar-events');
+                }
     
                 // Add hover event listener to show events tooltip
                 dayEl.addEventListener('mouseenter', (e) => {
@@ -372,11 +390,7 @@ export default class PersianCalendarView extends View {
     
                 // Check if the current day is a weekend based on user settings
                 const dayOfWeek = (firstDayOfWeekIndex + dayIndex) % 7; // 0: Saturday, 1: Sunday, ..., 6: Friday
-                if (
-                    (this.plugin.settings.weekendDays === 'thursday-friday' && (dayOfWeek === 5 || dayOfWeek === 6)) ||
-                    (this.plugin.settings.weekendDays === 'friday' && dayOfWeek === 6) ||
-                    (this.plugin.settings.weekendDays === 'friday-saturday' && (dayOfWeek === 6 || dayOfWeek === 0))
-                ) {
+                if (this.isWeekend(dayOfWeek)) {
                     isWeekend = true;
                 }
     
@@ -397,6 +411,11 @@ export default class PersianCalendarView extends View {
     
     
     
+    // Helper function to check if a day of the week (0: Saturday, ..., 6: Friday) is a weekend in the user settings
+    protected isWeekend(dayOfWeek: number): boolean {
+        return isWeekendDay(this.plugin.settings.weekendDays, dayOfWeek);
+    }
+
     // Helper function to check if a date is a holiday
     private isHoliday(calendarType: string, month: number, day: number): boolean {
         if (!this.holidayData[calendarType]) {
@@ -423,6 +442,78 @@ export default class PersianCalendarView extends View {
         });
     } 
 
+    private renderAgenda(containerEl: HTMLElement): void {
+        const agendaEl = containerEl.createEl('div', { cls: 'calendar-agenda' });
+        agendaEl.createEl('div', { cls: 'calendar-agenda-title', text: 'رویدادهای پیش رو' });
+
+        const numberOfDays = this.settings.agendaDays > 0 ? this.settings.agendaDays : 14;
+        const date = new Date();
+        let hasEvents = false;
+        for (let i = 0; i < numberOfDays; i++) {
+            const jalaaliDate = toJalaali(date);
+            const events = this.getEventsForDate(jalaaliDate.jy, jalaaliDate.jm, jalaaliDate.jd);
+            if (events.length > 0) {
+                hasEvents = true;
+                this.renderAgendaDay(agendaEl, jalaaliDate, date, events);
+            }
+            date.setDate(date.getDate() + 1);
+        }
+
+        if (!hasEvents) {
+            agendaEl.createEl('div', { cls: 'calendar-agenda-empty', text: 'رویدادی در روزهای پیش رو ثبت نشده است.' });
+        }
+    }
+
+    private renderAgendaDay(agendaEl: HTMLElement, jalaaliDate: JalaaliDate, date: Date, events: CalendarEvent[]): void {
+        const { jy, jm, jd } = jalaaliDate;
+        const dayEl = agendaEl.createEl('div', { cls: 'calendar-agenda-day' });
+        if (this.isToday(jalaaliDate)) {
+            dayEl.addClass('today');
+        }
+
+        const weekdayNames = ['یکشنبه', 'دوشنبه', 'سه‌شنبه', 'چهارشنبه', 'پنج‌شنبه', 'جمعه', 'شنبه'];
+        const headerEl = dayEl.createEl('div', { cls: 'calendar-agenda-date' });
+        headerEl.textContent = `${weekdayNames[date.getDay()]} ${this.toFarsiDigits(jd)} ${this.getMonthName(jm)} ${this.toFarsiDigits(jy)}`;
+        const isHoliday = events.some(event => event.isHoliday) || this.isWeekend((date.getDay() + 1) % 7);
+        if (isHoliday) {
+            headerEl.addClass('holiday');
+        }
+
+        const hijriDate = this.getHijriDate(jalaaliDate, this.plugin.settings.hijriCalendarType, this.plugin.settings.hijriDateAdjustment);
+        const otherDatesEl = dayEl.createEl('div', { cls: 'calendar-agenda-other-dates' });
+        otherDatesEl.createEl('span', { text: `${date.getDate()} ${this.getGeorgianMonthName(date.getMonth() + 1)} ${date.getFullYear()}` });
+        otherDatesEl.createEl('span', { text: `${this.toFarsiDigits(hijriDate.hd)} ${this.getHijriMonthName(hijriDate.hm)} ${this.toFarsiDigits(hijriDate.hy)}` });
+
+        events.forEach(event => {
+            const eventEl = dayEl.createEl('div', { cls: 'calendar-agenda-event' });
+            if (event.isHoliday) {
+                eventEl.addClass('holiday');
+            }
+            const titleEl = eventEl.createEl('span', { cls: 'calendar-agenda-event-title', text: event.title });
+            if (event.color) {
+                titleEl.style.color = event.color;
+            }
+            eventEl.createEl('span', { cls: 'calendar-agenda-event-source', text: this.getEventSourceLabel(event) });
+        });
+
+        dayEl.addEventListener('click', () => {
+            this.plugin.api.trigger('day-clicked', { date: { jy, jm, jd } });
+            this.openOrCreateDailyNoteForDate(jy, jm, jd);
+        });
+    }
+
+    private getEventSourceLabel(event: CalendarEvent): string {
+        const labels: { [type: string]: string } = {
+            'Iran': 'رسمی',
+            'Ancient Iran': 'ایران باستان',
+            'Islamic Iran': 'شیعی',
+            'Global': 'میلادی',
+            'Custom': 'شخصی',
+            'Anniversary': 'سالروز',
+        };
+        return event.category ?? labels[event.type] ?? event.type;
+    }
+
     private startDailyCheckInterval(): void {
         this.dailyCheckInterval = setInterval(() => {
             const today = moment().startOf('day');
@@ -441,82 +532,26 @@ export default class PersianCalendarView extends View {
     }
     
 
-    private isToday(jalaaliDate: { jy: number, jm: number, jd: number }): boolean {
+    protected isToday(jalaaliDate: { jy: number, jm: number, jd: number }): boolean {
          
         const today = moment().locale('fa');
         return today.isSame(moment(`${jalaaliDate.jy}/${jalaaliDate.jm}/${jalaaliDate.jd}`, 'jYYYY/jM/jD'), 'day');
     }
 
     private async getDaysWithNotes(): Promise<number[]> {
-        const jy = this.currentJalaaliYear;
-        const jm = this.currentJalaaliMonth;
-        const files = this.app.vault.getFiles();
-        const noteDays: number[] = [];
-        const usePersian = this.settings.dateFormat === 'persian';
-    
-        files.forEach(file => {
-            // Try to extract date from the file path
-            const dateComponents = extractDateFromPath(
-                file.path,
-                this.settings.dailyNotesFolderPath,
-                this.settings.dailyNotesFormat,
-                usePersian
-            );
-            
-            if (!dateComponents || !dateComponents.day) {
-                return; // Not a daily note or couldn't parse
-            }
-            
-            // Check if the file matches the current month/year
-            if (usePersian) {
-                if (dateComponents.year === jy && dateComponents.month === jm) {
-                    noteDays.push(dateComponents.day);
-                }
-            } else {
-                // Convert Gregorian date to Jalaali to check if it's in current month
-                const jalaaliDate = toJalaali(dateComponents.year, dateComponents.month, dateComponents.day);
-                if (jalaaliDate.jy === jy && jalaaliDate.jm === jm) {
-                    noteDays.push(jalaaliDate.jd);
-                }
-            }
-        });
-    
-        return noteDays;
+        return this.plugin.noteIndex.getDaysWithNotes(this.currentJalaaliYear, this.currentJalaaliMonth);
     }
     
     private async getWeeksWithNotes(jy: number): Promise<number[]> {
-        const files = this.app.vault.getFiles();
-        const weekNumbers: number[] = [];
-        const usePersian = this.settings.dateFormat === 'persian';
-    
-        files.forEach(file => {
-            // Try to extract date from the file path
-            const dateComponents = extractDateFromPath(
-                file.path,
-                this.settings.weeklyNotesFolderPath,
-                this.settings.weeklyNotesFormat,
-                usePersian
-            );
-            
-            if (!dateComponents || !dateComponents.week) {
-                return; // Not a weekly note or couldn't parse
-            }
-            
-            // Check if the file matches the current year
-            if (dateComponents.year === jy) {
-                weekNumbers.push(dateComponents.week);
-            }
-        });
-    
-        return weekNumbers;
+        return this.plugin.noteIndex.getWeeksWithNotes(jy);
     }
 
-    private toFarsiDigits(num: number | string): string {
+    protected toFarsiDigits(num: number | string): string {
         const farsiDigits = ['۰', '۱', '۲', '۳', '۴', '۵', '۶', '۷', '۸', '۹'];
         return num.toString().replace(/\d/g, (digit) => farsiDigits[parseInt(digit, 10)]);
     }
     
-    private calculateFirstDayOfWeekIndex(jy: number, jm: number): number {
+    protected calculateFirstDayOfWeekIndex(jy: number, jm: number): number {
          
         const { gy, gm, gd } = toGregorian(jy, jm, 1);
          
@@ -625,9 +660,10 @@ export default class PersianCalendarView extends View {
 }
 
 public async openOrCreateDailyNote(dayNumber: number) {
-    const year = this.currentJalaaliYear;
-    const month = this.currentJalaaliMonth;
-    
+    await this.openOrCreateDailyNoteForDate(this.currentJalaaliYear, this.currentJalaaliMonth, dayNumber);
+}
+
+public async openOrCreateDailyNoteForDate(year: number, month: number, dayNumber: number) {
     // Determine which calendar to use for formatting
     const usePersian = this.settings.dateFormat === 'persian';
     
@@ -655,7 +691,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
             await this.ensureFolderExists(filePath);
             
             // Create the file
-            await this.app.vault.create(filePath, '');
+            await this.createPeriodicNote('daily', filePath);
            
             dailyNoteFile = await this.app.vault.getAbstractFileByPath(filePath);
         }
@@ -701,7 +737,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
                 // Ensure parent folders exist
                 await this.ensureFolderExists(filePath);
                 
-                await this.app.vault.create(filePath, '');
+                await this.createPeriodicNote('weekly', filePath);
                 weeklyNoteFile = await this.app.vault.getAbstractFileByPath(filePath);
                 this.render();
             }
@@ -751,7 +787,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
                 // Ensure parent folders exist
                 await this.ensureFolderExists(filePath);
                 
-                await this.app.vault.create(filePath, '');
+                await this.createPeriodicNote('monthly', filePath);
                  
                 monthlyNoteFile = await this.app.vault.getAbstractFileByPath(filePath);
             }
@@ -795,7 +831,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
                 // Ensure parent folders exist
                 await this.ensureFolderExists(filePath);
                 
-                await this.app.vault.create(filePath, '');
+                await this.createPeriodicNote('quarterly', filePath);
                  
                 quarterlyNoteFile = await this.app.vault.getAbstractFileByPath(filePath);
             }
@@ -840,7 +876,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
                 // Ensure parent folders exist
                 await this.ensureFolderExists(filePath);
                 
-                await this.app.vault.create(filePath, '');
+                await this.createPeriodicNote('yearly', filePath);
                  
                 yearlyNoteFile = await this.app.vault.getAbstractFileByPath(filePath);
             }
@@ -876,6 +912,10 @@ public async openOrCreateDailyNote(dayNumber: number) {
     }
 }
 
+    private async createPeriodicNote(kind: PeriodicNoteKind, filePath: string): Promise<void> {
+        await this.plugin.createPeriodicNote(kind, filePath);
+    }
+
     /**
      * Ensures that all parent folders exist for a given file path
      * @param filePath The complete file path
@@ -928,7 +968,7 @@ public async openOrCreateDailyNote(dayNumber: number) {
         return { quarter, jy: year };
     }
     
-    private getMonthName(monthIndex: number): string {
+    protected getMonthName(monthIndex: number): string {
         const monthNames = [
             'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
             'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
@@ -944,61 +984,15 @@ public async openOrCreateDailyNote(dayNumber: number) {
         await this.render();
     }
 
-    public getEventsForDate(jy: number, jm: number, jd: number): { title: string, isHoliday: boolean }[] {
-        const events: { title: string, isHoliday: boolean }[] = [];
-        const addEvent = (event: { title: string, isHoliday: boolean }) => events.push(event);
-    
-        // Persian Calendar Holidays
-        if (this.plugin.settings.showOfficialIranianCalendar || this.plugin.settings.showAncientIranianCalendar) {
-            PersianCalendarHolidays.forEach(event => {
-                if (event.month === jm && event.day === jd) {
-                    if (this.plugin.settings.showOfficialIranianCalendar && event.type === "Iran") {
-                        addEvent({ title: event.title, isHoliday: event.holiday });
-                    }
-                    if (this.plugin.settings.showAncientIranianCalendar && event.type === "Ancient Iran") {
-                        addEvent({ title: event.title, isHoliday: event.holiday });
-                    }
-                    
-                }
-            });
-        }
-    
-        // Hijri Calendar Holidays
-        if (this.plugin.settings.showShiaCalendar) {
-            const gregorianDate = jalaali.toGregorian(jy, jm, jd);
-            const persianDate = { jy: jy, jm: jm, jd: jd };
-            const ummalquraAdjustment = this.plugin.settings.hijriDateAdjustment;
-    
-            const hijriDateResult = this.getHijriDate(persianDate, this.plugin.settings.hijriCalendarType, ummalquraAdjustment);
-    
-            const hijriMomentDate = hijriMoment(`${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`, 'YYYY-M-D');
-            hijriMomentDate.iYear(hijriDateResult.hy);
-            hijriMomentDate.iMonth(hijriDateResult.hm - 1); // iMonth is 0-indexed
-            hijriMomentDate.iDate(hijriDateResult.hd);
-    
-            HijriCalendarHolidays.forEach(event => {
-                if (event.month === hijriMomentDate.iMonth() + 1 && event.day === hijriMomentDate.iDate()) {
-                    addEvent({ title: event.title, isHoliday: event.holiday });
-                }
-            });
-        }
-    
-        // Gregorian Calendar Holidays
-        if (this.plugin.settings.showOfficialIranianCalendar) {
-            const gregorianDate = jalaali.toGregorian(jy, jm, jd);
-            GregorianCalendarHolidays.forEach(event => {
-                if (event.month === gregorianDate.gm && event.day === gregorianDate.gd) {
-                    addEvent({ title: event.title, isHoliday: event.holiday });
-                }
-            });
-        }
-    
-        return events;
+    public getEventsForDate(jy: number, jm: number, jd: number): CalendarEvent[] {
+        return getCalendarEventsForDate(this.plugin, { jy, jm, jd }, years => this.toFarsiDigits(years));
     }
-    
-    
 
-    private showTooltip(e: MouseEvent | TouchEvent, dayElement: HTMLElement, events: { title: string, isHoliday: boolean }[]): void {
+    private getCustomEventsForDate(jy: number, jm: number, jd: number): CustomEvent[] {
+        return this.plugin.customEvents.getEventsForDate(getCustomEventDate({ jy, jm, jd }, this.plugin.settings));
+    }
+
+    protected showTooltip(e: MouseEvent | TouchEvent, dayElement: HTMLElement, events: CalendarEvent[]): void {
         let tooltip = document.querySelector('.calendar-tooltip') as HTMLElement;
     
         if (!tooltip) {
@@ -1007,7 +1001,11 @@ public async openOrCreateDailyNote(dayNumber: number) {
             document.body.appendChild(tooltip);
         }
     
-        tooltip.innerHTML = events.map(event => `<div style="color: ${event.isHoliday ? 'var(--text-error)' : 'var(--text-normal)'}">${event.title}</div>`).join('');
+        tooltip.empty();
+        events.forEach(event => {
+            const eventEl = tooltip.createDiv({ text: event.title });
+            eventEl.style.color = event.color ?? (event.isHoliday ? 'var(--text-error)' : 'var(--text-normal)');
+        });
         tooltip.style.display = 'block';
     
         let x: number | undefined;
@@ -1028,69 +1026,15 @@ public async openOrCreateDailyNote(dayNumber: number) {
         }
     }
 
-    private hideTooltip(): void {
+    protected hideTooltip(): void {
         const tooltip = document.querySelector('.calendar-tooltip') as HTMLElement;
         if (tooltip) {
             tooltip.style.display = 'none';
         }
     }
 
-    public calculateDayDifference(fromDate: { jy: number, jm: number, jd: number }, toDate: { jy: number, jm: number, jd: number }): number {
-        const fromGregorian = jalaali.toGregorian(fromDate.jy, fromDate.jm, fromDate.jd);
-        const toGregorian = jalaali.toGregorian(toDate.jy, toDate.jm, toDate.jd);
-        const fromDateObj = new Date(fromGregorian.gy, fromGregorian.gm - 1, fromGregorian.gd);
-        const toDateObj = new Date(toGregorian.gy, toGregorian.gm - 1, toGregorian.gd);
-        const timeDiff = toDateObj.getTime() - fromDateObj.getTime();
-        return timeDiff / (1000 * 3600 * 24); 
-    }
-    
-    public calculateIranianHijriDate(baseDate: { hy: number, hm: number, hd: number }, dayDifference: number): { hy: number, hm: number, hd: number } {
-        let { hy, hm, hd } = baseDate;
-    
-        while (dayDifference > 0) {
-            const monthLength = iranianHijriAdjustments[hy] ? iranianHijriAdjustments[hy][hm] : null;
-            if (monthLength) {
-                if (hd + dayDifference <= monthLength) {
-                    hd += dayDifference;
-                    dayDifference = 0;
-                } else {
-                    dayDifference -= (monthLength - hd + 1);
-                    hd = 1;
-                    hm += 1;
-                    if (hm > 12) {
-                        hm = 1;
-                        hy += 1;
-                    }
-                }
-            } else {
-                const gregorianDate = jalaali.toGregorian(baseDate.hy, baseDate.hm, baseDate.hd);
-                const gregorianDateStr = `${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`;
-                const hijriMomentDate = hijriMoment(gregorianDateStr, 'YYYY-M-D').add(dayDifference, 'days');
-                return {
-                    hy: hijriMomentDate.iYear(),
-                    hm: hijriMomentDate.iMonth() + 1,
-                    hd: hijriMomentDate.iDate()
-                };
-            }
-        }
-    
-        return { hy, hm, hd };
-    }
-    
     public getHijriDate(persianDate: { jy: number, jm: number, jd: number }, calendarType: string, ummalquraAdjustment: number): { hy: number, hm: number, hd: number } {
-        if (calendarType === 'ummalqura') {
-            const gregorianDate = jalaali.toGregorian(persianDate.jy, persianDate.jm, persianDate.jd);
-            const gregorianDateStr = `${gregorianDate.gy}-${gregorianDate.gm}-${gregorianDate.gd}`;
-            const hijriMomentDate = hijriMoment(gregorianDateStr, 'YYYY-M-D').add(ummalquraAdjustment, 'days');
-            return {
-                hy: hijriMomentDate.iYear(),
-                hm: hijriMomentDate.iMonth() + 1,
-                hd: hijriMomentDate.iDate()
-            };
-        } else {
-            const dayDifference = this.calculateDayDifference(basePersianDate, persianDate);
-            return this.calculateIranianHijriDate(baseHijriDate, dayDifference);
-        }
+        return getHijriDate(persianDate, calendarType, ummalquraAdjustment);
     }
 
 
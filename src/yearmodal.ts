@@ -0,0 +1,35 @@
+import { App, SuggestModal } from 'obsidian';
+import { isValidJalaaliDate, toJalaali } from 'jalaali-js';
+
+/**
+ * Asks for a Jalaali year: the years around the current one, or any four-digit year typed in
+ * that the Jalaali calendar covers
+ */
+export default class JalaaliYearModal extends SuggestModal<number> {
+    private onChoose: (year: number) => void;
+
+    constructor(app: App, onChoose: (year: number) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('سال شمسی را وارد کنید، مثلا ۱۴۰۴');
+    }
+
+    getSuggestions(query: string): number[] {
+        const typed = query.trim().replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0));
+        if (/^[1-9]\d{3}$/.test(typed)) {
+            const year = parseInt(typed);
+            return isValidJalaaliDate(year, 1, 1) ? [year] : [];
+        }
+        const currentYear = toJalaali(new Date()).jy;
+        return [currentYear, currentYear + 1, currentYear - 1, currentYear + 2].filter(year => year.toString().startsWith(typed));
+    }
+
+    renderSuggestion(year: number, el: HTMLElement): void {
+        el.setAttribute('dir', 'rtl');
+        el.setText(year.toString());
+    }
+
+    onChooseSuggestion(year: number): void {
+        this.onChoose(year);
+    }
+}
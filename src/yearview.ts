@@ -0,0 +1,126 @@
+import { jalaaliMonthLength } from 'jalaali-js';
+import { getTodayJalaali } from './calendar';
+import PersianCalendarView from './view';
+
+/**
+ * Full-width overview of one Jalaali year: twelve mini months grouped by quarter.
+ * It shares note handling, events and holidays with the sidebar calendar.
+ */
+export default class PersianYearView extends PersianCalendarView {
+    getViewType(): string {
+        return "persian-calendar-year";
+    }
+
+    getDisplayText(): string {
+        return "Persian Year Overview";
+    }
+
+    public async render() {
+        const containerEl = this.containerEl;
+        containerEl.empty();
+        containerEl.addClass('persian-year-view');
+
+        this.renderYearHeader(containerEl);
+
+        const seasons = ['بهار', 'تابستان', 'پاییز', 'زمستان'];
+        const quartersEl = containerEl.createEl('div', { cls: 'year-view-quarters' });
+        seasons.forEach((season, index) => {
+            const quarter = index + 1;
+            const quarterEl = quartersEl.createEl('div', { cls: 'year-view-quarter' });
+            const quarterLabel = quarterEl.createEl('div', { cls: 'year-view-quarter-label' });
+            quarterLabel.textContent = season;
+            if (this.plugin.noteIndex.getQuartersWithNotes(this.currentJalaaliYear).includes(quarter)) {
+                quarterLabel.addClass('has-note');
+            }
+            quarterLabel.addEventListener('click', () => {
+                this.openOrCreateQuarterlyNote(quarter, this.currentJalaaliYear);
+            });
+
+            const monthsEl = quarterEl.createEl('div', { cls: 'year-view-months' });
+            for (let month = (quarter - 1) * 3 + 1; month <= quarter * 3; month++) {
+                this.renderMiniMonth(monthsEl, this.currentJalaaliYear, month);
+            }
+        });
+    }
+
+    private renderYearHeader(containerEl: HTMLElement): void {
+        const headerEl = containerEl.createEl('div', { cls: 'calendar-header' });
+        const navContainerEl = headerEl.createEl('div', { cls: 'calendar-navigation' });
+
+        const prevYearArrow = navContainerEl.createEl('span', { cls: 'calendar-change-month-arrow' });
+        prevYearArrow.textContent = '<';
+        prevYearArrow.addEventListener('click', () => this.changeYear(1));
+
+        const thisYearButton = navContainerEl.createEl('span', { cls: 'calendar-today-button' });
+        thisYearButton.textContent = 'امسال';
+        thisYearButton.addEventListener('click', () => this.changeYear(getTodayJalaali().jy - this.currentJalaaliYear));
+
+        const nextYearArrow = navContainerEl.createEl('span', { cls: 'calendar-change-month-arrow' });
+        nextYearArrow.textContent = '>';
+        nextYearArrow.addEventListener('click', () => this.changeYear(-1));
+
+        const yearEl = headerEl.createEl('div', { cls: 'calendar-month-year' }).createEl('span', { cls: 'calendar-year' });
+        yearEl.textContent = this.toFarsiDigits(this.currentJalaaliYear);
+        yearEl.addEventListener('click', () => {
+            this.openOrCreateYearlyNote(this.currentJalaaliYear);
+        });
+    }
+
+    private renderMiniMonth(containerEl: HTMLElement, jy: number, jm: number): void {
+        const monthEl = containerEl.createEl('div', { cls: 'year-view-month' });
+
+        const monthHeader = monthEl.createEl('div', { cls: 'year-view-month-name' });
+        monthHeader.textContent = this.getMonthName(jm);
+        if (this.plugin.noteIndex.getMonthsWithNotes(jy).includes(jm)) {
+            monthHeader.addClass('has-note');
+        }
+        monthHeader.addEventListener('click', () => {
+            this.openOrCreateMonthlyNote(jm, jy);
+        });
+
+        const gridEl = monthEl.createEl('div', { cls: 'year-view-days-grid' });
+        ['ش', 'ی', 'د', 'س', 'چ', 'پ', 'ج'].forEach(weekday => {
+            gridEl.createEl('div', { cls: 'year-view-weekday-header' }).textContent = weekday;
+        });
+
+        const firstDayOfWeekIndex = this.calculateFirstDayOfWeekIndex(jy, jm);
+        for (let i = 0; i < firstDayOfWeekIndex; i++) {
+            gridEl.createEl('div', { cls: 'year-view-day empty' });
+        }
+
+        const daysWithNotes = this.plugin.noteIndex.getDaysWithNotes(jy, jm);
+        const daysInMonth = jalaaliMonthLength(jy, jm);
+        for (let day = 1; day <= daysInMonth; day++) {
+            const dayEl = gridEl.createEl('div', { cls: 'year-view-day' });
+            dayEl.textContent = this.toFarsiDigits(day);
+
+            if (this.isToday({ jy, jm, jd: day })) {
+                dayEl.addClass('today');
+            }
+            if (!daysWithNotes.includes(day)) {
+                dayEl.addClass('no-notes');
+            }
+
+            const events = this.getEventsForDate(jy, jm, day);
+            const isHoliday = this.settings.showHolidays && events.some(event => event.isHoliday);
+            if (isHoliday || this.isWeekend((firstDayOfWeekIndex + day - 1) % 7)) {
+                dayEl.addClass('holiday');
+            }
+            if (events.length > 0) {
+                dayEl.addEventListener('mouseenter', (e) => this.showTooltip(e, dayEl, events));
+                dayEl.addEventListener('mouseleave', () => this.hideTooltip());
+            }
+
+            dayEl.addEventListener('click', () => {
+                this.plugin.api.trigger('day-clicked', { date: { jy, jm, jd: day } });
+                this.currentJalaaliMonth = jm;
+                this.openOrCreateDailyNote(day);
+            });
+        }
+    }
+
+    private changeYear(offset: number): void {
+        this.currentJalaaliYear += offset;
+        this.render();
+    }
+}